@@ -1,13 +1,27 @@
 // main.ts
 
-import { Plugin, Notice } from 'obsidian';
+import { Plugin, Notice, MarkdownView, TFile } from 'obsidian';
 import { FillerInnerSettingTab } from './src/components/settingsTab';
 import { TemplateModal } from './src/components/templateModal/templateModal';
 import { TemplateManager } from './src/services/templateManager';
 import { LLMService } from './src/services/ai/llmService';
 import { PromptOptimizer } from './src/services/ai/promptOptimizer';
+import { ModelCatalog } from './src/services/ai/modelCatalog';
 import { FileService } from './src/services/fileService';
+import { UsageLedger } from './src/services/usageLedger';
+import { VaultSearchIndex } from './src/services/vaultSearchIndex';
+import { BatchFiller } from './src/services/batchFiller';
+import { TemplateApplier } from './src/services/templateApplier';
+import { UsageView, USAGE_VIEW_TYPE } from './src/components/usageView';
+import { DiffModal } from './src/components/diffModal';
+import { BatchModal } from './src/components/batchModal';
+import { ApplyTemplateModal } from './src/components/applyTemplateModal';
 import { DEFAULT_SETTINGS, FillerInnerSettings } from './src/types/settings';
+import { UsageRecord } from './src/types/usage';
+import { BatchRun } from './src/types/batch';
+import { AIProvider } from './src/types/aiModels';
+import { EditorTarget, TemplateError } from './src/types';
+import { applyBlanks, findBlanks } from './src/utils/noteBlanks';
 
 /**
  * Main plugin class for Filler Inner.
@@ -17,11 +31,23 @@ export default class FillerInnerPlugin extends Plugin {
     // Plugin settings
     settings!: FillerInnerSettings;
 
+    // Usage records loaded with the settings, handed to the ledger on initialization
+    private storedUsage: UsageRecord[] = [];
+    // Batch runs kept for resuming, keyed by template and data file
+    private batchRuns: Record<string, BatchRun> = {};
+    // Template discovery settings the index was last built from
+    private indexedDiscovery: string = '';
+
     // Core services
     templateManager!: TemplateManager;
+    vaultSearchIndex!: VaultSearchIndex;
     llmService!: LLMService;
     promptOptimizer!: PromptOptimizer;
+    modelCatalog!: ModelCatalog;
     fileService!: FileService;
+    usageLedger!: UsageLedger;
+    batchFiller!: BatchFiller;
+    templateApplier!: TemplateApplier;
 
     // UI components
     ribbonIcon: HTMLElement | null = null;
@@ -57,6 +83,54 @@ export default class FillerInnerPlugin extends Plugin {
             callback: () => this.openTemplateModal(),
         });
 
+        // Register the command to fill a template into the active note
+        this.addCommand({
+            id: 'fill-template-at-cursor',
+            name: 'Fill Template at Cursor',
+            editorCallback: (editor, view) => this.openTemplateModal({ editor, file: view.file }),
+        });
+
+        // Register the command to fill the blanks of the active note in place
+        this.addCommand({
+            id: 'fill-blanks',
+            name: 'Fill Blanks in Current Note',
+            checkCallback: (checking) => {
+                const file = this.app.workspace.getActiveFile();
+                if (!file || file.extension !== 'md') {
+                    return false;
+                }
+                if (!checking) {
+                    this.fillBlanks(file).catch(error => {
+                        console.error('Failed to fill blanks:', error);
+                        new Notice('Failed to fill the blanks. Check console for details.');
+                    });
+                }
+                return true;
+            },
+        });
+
+        // Register the command to fill a template once per row of a data file
+        this.addCommand({
+            id: 'batch-fill',
+            name: 'Batch Fill from Table',
+            callback: () => new BatchModal(this.app, this.batchFiller, this.templateManager, this.usageLedger, this.settings).open(),
+        });
+
+        // Register the command to apply a template to every note of a folder or search
+        this.addCommand({
+            id: 'apply-template-to-notes',
+            name: 'Apply Template to Notes',
+            callback: () => new ApplyTemplateModal(this.app, this.templateApplier, this.templateManager, this.usageLedger).open(),
+        });
+
+        // Register the usage ledger view and the command to show it
+        this.registerView(USAGE_VIEW_TYPE, (leaf) => new UsageView(leaf, this.usageLedger));
+        this.addCommand({
+            id: 'show-usage',
+            name: 'Show Usage and Costs',
+            callback: () => this.openUsageView(),
+        });
+
         console.log('Filler Inner: Plugin loaded successfully.');
     }
 
@@ -80,17 +154,63 @@ export default class FillerInnerPlugin extends Plugin {
 
     /**
      * Loads the plugin settings from disk.
-     * Merges user settings with default settings.
+     * Merges user settings with default settings, section by section so
+     * options added in newer versions get their defaults.
      */
     async loadSettings() {
-        this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
+        const { usageLedger, batchRuns, ...data } = (await this.loadData()) || {};
+        this.settings = Object.assign({}, DEFAULT_SETTINGS, data, {
+            llm: Object.assign({}, DEFAULT_SETTINGS.llm, data.llm),
+            paths: Object.assign({}, DEFAULT_SETTINGS.paths, data.paths),
+            discovery: Object.assign({}, DEFAULT_SETTINGS.discovery, data.discovery),
+            processing: Object.assign({}, DEFAULT_SETTINGS.processing, data.processing),
+            usage: Object.assign({}, DEFAULT_SETTINGS.usage, data.usage)
+        });
+        this.storedUsage = usageLedger || [];
+        this.batchRuns = batchRuns || {};
+
+        // Keys saved before per-provider keys existed belong to the selected provider
+        const { provider, apiKey, apiKeys } = this.settings.llm;
+        if (apiKey && !apiKeys?.[provider]) {
+            this.settings.llm.apiKeys = { ...apiKeys, [provider]: apiKey };
+        }
+        this.indexedDiscovery = this.getDiscoverySnapshot();
     }
 
     /**
      * Saves the current plugin settings to disk.
      */
     async saveSettings() {
-        await this.saveData(this.settings);
+        await this.savePluginData();
+
+        // Re-create the adapter so provider, key and endpoint changes apply immediately
+        this.llmService?.updateSettings(this.settings.llm);
+
+        // Rebuilding reads every template, so only do it when folders or filters changed,
+        // not on each keystroke in unrelated fields
+        const discovery = this.getDiscoverySnapshot();
+        if (discovery !== this.indexedDiscovery) {
+            this.indexedDiscovery = discovery;
+            this.templateManager?.clearCache();
+        }
+    }
+
+    /**
+     * The settings that decide which notes are templates, for detecting changes
+     */
+    private getDiscoverySnapshot(): string {
+        return JSON.stringify({ paths: this.settings.paths, discovery: this.settings.discovery });
+    }
+
+    /**
+     * Writes settings and the usage ledger to the plugin data file.
+     */
+    async savePluginData() {
+        await this.saveData({
+            ...this.settings,
+            usageLedger: this.usageLedger ? this.usageLedger.getRecords() : this.storedUsage,
+            batchRuns: this.batchRuns
+        });
     }
 
     /**
@@ -98,22 +218,61 @@ export default class FillerInnerPlugin extends Plugin {
      */
     initializeServices() {
         // Initialize TemplateManager with the templates path from settings
-        this.templateManager = new TemplateManager(this.app, this.settings.paths.templatesPath);
+        this.templateManager = new TemplateManager(this.app, this.settings);
+        // Registers the vault events that keep the template index up to date
+        this.addChild(this.templateManager);
+
+        // Offline search over the vault's notes for grounding fills; built on first use
+        this.vaultSearchIndex = new VaultSearchIndex(this.app);
+        this.addChild(this.vaultSearchIndex);
+
+        // Initialize UsageLedger; pricing comes from the model catalog created below
+        this.usageLedger = new UsageLedger(
+            this.storedUsage,
+            this.settings.usage,
+            () => this.savePluginData(),
+            (provider, model) => this.modelCatalog?.getModel(model, provider as AIProvider)?.pricing
+        );
 
         // Initialize LLMService with LLM configuration from settings
-        this.llmService = new LLMService(this.settings.llm);
+        this.llmService = new LLMService(this.settings.llm, this.usageLedger);
+
+        // Initialize ModelCatalog for the provider's live model list
+        this.modelCatalog = new ModelCatalog(this.llmService, this.settings.llm);
 
         // Initialize PromptOptimizer with LLMService and optimization settings
         this.promptOptimizer = new PromptOptimizer(this.llmService, this.settings.processing.usePromptOptimization);
 
         // Initialize FileService with the output path from settings
         this.fileService = new FileService(this.app, this.settings);
+
+        // Initialize BatchFiller; runs are saved with the plugin data so they can be resumed
+        this.batchFiller = new BatchFiller(
+            this.app,
+            this.templateManager,
+            this.llmService,
+            this.fileService,
+            this.settings,
+            this.batchRuns,
+            () => this.savePluginData()
+        );
+
+        // Initialize TemplateApplier for running a template over many notes
+        this.templateApplier = new TemplateApplier(
+            this.app,
+            this.templateManager,
+            this.llmService,
+            this.fileService,
+            this.settings
+        );
     }
 
     /**
      * Opens the TemplateModal for the user to select and fill templates.
+     * @param insertTarget Editor to insert the result into; when omitted, the result is saved
+     * to a new note and the active editor, if any, is offered as an alternative
      */
-    openTemplateModal() {
+    openTemplateModal(insertTarget?: EditorTarget) {
         if (!this.llmService) {
             new Notice('LLM Service is not initialized.');
             return;
@@ -124,11 +283,109 @@ export default class FillerInnerPlugin extends Plugin {
             this.templateManager,
             this.llmService,
             this.promptOptimizer,
-            this.fileService
+            this.fileService,
+            this.usageLedger,
+            this.settings,
+            this.vaultSearchIndex,
+            this.modelCatalog
         );
+
+        const activeView = this.app.workspace.getActiveViewOfType(MarkdownView);
+        if (insertTarget) {
+            modal.setEditorTarget(insertTarget, true);
+        } else if (activeView) {
+            modal.setEditorTarget({ editor: activeView.editor, file: activeView.file }, false);
+        }
+
         modal.open();
     }
 
+    /**
+     * Fills the empty headings, TODO and {{...}} markers and empty frontmatter values
+     * of a note, and writes them back after the user confirms the diff.
+     * @param file The note to fill.
+     */
+    async fillBlanks(file: TFile) {
+        let content: string;
+        try {
+            content = await this.templateManager.loadNote(file);
+        } catch (error: any) {
+            if (error?.message === TemplateError.INVALID_CONTENT) {
+                new Notice('This note is empty; there are no blanks to fill.');
+            } else {
+                console.error('Failed to read the note:', error);
+                new Notice(`❌ Failed to read the note: ${error?.message || error}`);
+            }
+            return;
+        }
+
+        const blanks = findBlanks(content);
+        if (blanks.length === 0) {
+            new Notice('No blanks found in this note.');
+            return;
+        }
+
+        const progress = new Notice(`Filling ${blanks.length} blank${blanks.length === 1 ? '' : 's'}...`, 0);
+        let values: Record<number, string>;
+        try {
+            values = await this.llmService.fillBlanks(content, blanks, { template: `Fill blanks: ${file.basename}` });
+        } catch (error) {
+            console.error('Failed to fill blanks:', error);
+            new Notice('Failed to fill the blanks. Check console for details.');
+            return;
+        } finally {
+            progress.hide();
+        }
+
+        const updated = applyBlanks(content, blanks, values);
+        if (updated === content) {
+            new Notice('The model left every blank empty.');
+            return;
+        }
+
+        const confirmed = await new DiffModal(this.app, `Fill blanks in ${file.basename}`, content, updated).ask();
+        if (!confirmed) {
+            return;
+        }
+
+        // Never overwrite edits made while the blanks were being filled
+        let changed = false;
+        try {
+            await this.app.vault.process(file, (data) => {
+                changed = data !== content;
+                return changed ? data : updated;
+            });
+        } catch (error: any) {
+            console.error('Failed to write the filled note:', error);
+            new Notice(`❌ Failed to write the note: ${error?.message || error}`);
+            return;
+        }
+
+        const filled = blanks.filter(blank => values[blank.id]?.trim()).length;
+        new Notice(changed
+            ? 'The note changed while its blanks were being filled, so nothing was written. Try again.'
+            : `Filled ${filled} of ${blanks.length} blank${blanks.length === 1 ? '' : 's'}.`);
+    }
+
+    /**
+     * Reveals the usage ledger view, opening it in the right sidebar if needed.
+     */
+    async openUsageView() {
+        const existing = this.app.workspace.getLeavesOfType(USAGE_VIEW_TYPE);
+        if (existing.length > 0) {
+            this.app.workspace.revealLeaf(existing[0]);
+            return;
+        }
+
+        const leaf = this.app.workspace.getRightLeaf(false);
+        if (!leaf) {
+            new Notice('Could not open the usage view.');
+            return;
+        }
+        await leaf.setViewState({ type: USAGE_VIEW_TYPE, active: true });
+        this.app.workspace.revealLeaf(leaf);
+    }
+
     /**
      * Updates the ribbon icon based on settings
      */
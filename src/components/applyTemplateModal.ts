@@ -0,0 +1,303 @@
+// src/components/applyTemplateModal.ts
+
+/**
+ * File: src/components/applyTemplateModal.ts
+ * Modal for applying a template to every note of a folder or search
+ */
+
+import { App, Modal, Notice, Setting, TFolder, TextAreaComponent } from 'obsidian';
+import { TemplateDropdown } from './templateModal/templateDropdown';
+import { ConfirmModal } from './confirmModal';
+import { VaultItemSuggestModal } from './vaultItemSuggestModal';
+import { TemplateApplier } from '../services/templateApplier';
+import { TemplateManager } from '../services/templateManager';
+import { UsageLedger } from '../services/usageLedger';
+import { Template } from '../types';
+import { ApplyOutput, ApplyPlanItem, ApplyResult, ApplyScope } from '../types/batch';
+
+export class ApplyTemplateModal extends Modal {
+    private templateApplier: TemplateApplier;
+    private templateManager: TemplateManager;
+    private usageLedger: UsageLedger;
+
+    private dropdown!: TemplateDropdown;
+    private template: Template | null = null;
+    private noteScope: ApplyScope = {};
+    private output: ApplyOutput = 'sibling';
+    private instructions!: TextAreaComponent;
+    private folderSetting!: Setting;
+
+    private listEl!: HTMLElement;
+    private statusEl!: HTMLElement;
+    private itemEls: Map<string, HTMLElement> = new Map();
+    private dryRunButton!: HTMLButtonElement;
+    private runButton!: HTMLButtonElement;
+    private stopButton!: HTMLButtonElement;
+    private abortController: AbortController | null = null;
+    // A dry run is reading the notes
+    private planning: boolean = false;
+
+    constructor(app: App, templateApplier: TemplateApplier, templateManager: TemplateManager, usageLedger: UsageLedger) {
+        super(app);
+        this.templateApplier = templateApplier;
+        this.templateManager = templateManager;
+        this.usageLedger = usageLedger;
+        this.modalEl.addClass('filler-inner-modal');
+        this.titleEl.addClass('filler-inner-title');
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+        this.titleEl.setText('🗂️ Apply Template to Notes');
+
+        new Setting(contentEl)
+            .setName('Template')
+            .setDesc('Filled once per note, with the note as the requirements')
+            .then(setting => {
+                this.dropdown = new TemplateDropdown(setting.controlEl);
+                this.dropdown.onSelect(template => {
+                    this.template = template;
+                    this.updateButtons();
+                });
+            });
+
+        this.folderSetting = new Setting(contentEl)
+            .setName('Folder')
+            .setDesc('Whole vault')
+            .addButton(button => button
+                .setButtonText('Choose…')
+                .onClick(() => {
+                    const folders = this.app.vault.getAllLoadedFiles()
+                        .filter((item): item is TFolder => item instanceof TFolder);
+                    new VaultItemSuggestModal(this.app, folders, 'Choose a folder', folder => {
+                        this.noteScope.folder = folder.path;
+                        this.folderSetting.setDesc(folder.isRoot() ? 'Whole vault' : folder.path);
+                    }).open();
+                }));
+
+        new Setting(contentEl)
+            .setName('Search')
+            .setDesc('Only notes containing all of these words; use tag:name and path:text to match tags and paths')
+            .addText(text => text
+                .setPlaceholder('e.g. tag:meeting')
+                .onChange(value => {
+                    this.noteScope.query = value;
+                }));
+
+        new Setting(contentEl)
+            .setName('Modified in the last')
+            .setDesc('Days (0 for any time)')
+            .addText(text => text
+                .setPlaceholder('0')
+                .onChange(value => {
+                    const days = parseInt(value, 10);
+                    this.noteScope.modifiedWithinDays = Number.isNaN(days) || days < 0 ? 0 : days;
+                }));
+
+        new Setting(contentEl)
+            .setName('Output')
+            .setDesc('Where each result goes')
+            .addDropdown(dropdown => dropdown
+                .addOption('sibling', 'New note next to each note')
+                .addOption('append', 'Append to each note')
+                .setValue(this.output)
+                .onChange(value => {
+                    this.output = value as ApplyOutput;
+                }));
+
+        new Setting(contentEl)
+            .setName('Instructions')
+            .setDesc('Added to every note\'s prompt')
+            .addTextArea(text => {
+                this.instructions = text;
+                text.setPlaceholder('e.g. Summarize the decisions and action items');
+                text.inputEl.rows = 3;
+            });
+
+        this.statusEl = contentEl.createDiv({ cls: 'apply-status' });
+        this.listEl = contentEl.createEl('ul', { cls: 'apply-notes' });
+        this.listEl.hide();
+
+        const footer = contentEl.createDiv('modal-footer');
+        footer.createEl('button', { text: 'Close', cls: 'cancel-button' })
+            .addEventListener('click', () => this.close());
+
+        this.stopButton = footer.createEl('button', { text: 'Stop', cls: 'stop-button' });
+        this.stopButton.hide();
+        this.stopButton.addEventListener('click', () => this.abortController?.abort());
+
+        this.dryRunButton = footer.createEl('button', { text: 'Dry run' });
+        this.dryRunButton.addEventListener('click', () => this.handleDryRun());
+
+        this.runButton = footer.createEl('button', { text: 'Run', cls: 'mod-cta' });
+        this.runButton.addEventListener('click', () => this.run());
+
+        this.updateButtons();
+        this.loadTemplates();
+    }
+
+    private async loadTemplates() {
+        try {
+            this.dropdown.setTemplates(await this.templateManager.getTemplates());
+        } catch (error) {
+            console.error('📚 Failed to load templates:', error);
+            new Notice('❌ Failed to load templates. Check console for details.');
+        }
+    }
+
+    private async handleDryRun() {
+        if (this.isBusy()) {
+            return;
+        }
+
+        this.planning = true;
+        this.updateButtons();
+        try {
+            await this.dryRun();
+        } finally {
+            this.planning = false;
+            this.updateButtons();
+        }
+    }
+
+    /**
+     * Finds the notes in scope and lists which would be processed or skipped, without generating
+     * @returns The plan and its estimated cost, or null when there is no template or the notes could not be read
+     */
+    private async dryRun(): Promise<{ plan: ApplyPlanItem[], cost: number } | null> {
+        if (!this.template) {
+            return null;
+        }
+
+        try {
+            const plan = this.templateApplier.plan(this.template, await this.templateApplier.findNotes(this.noteScope));
+            const toProcess = plan.filter(item => !item.skipReason);
+            const cost = await this.templateApplier.estimateCost(this.template, toProcess.map(item => item.file), this.instructions.getValue());
+
+            this.renderPlan(plan);
+            this.statusEl.setText(`${toProcess.length} of ${plan.length} notes would be processed` +
+                (cost > 0 ? ` · estimated $${cost.toFixed(4)}` : ''));
+            return { plan, cost };
+        } catch (error) {
+            console.error('🚨 Planning failed:', error);
+            new Notice('❌ Failed to read the template or the notes. Check console for details.');
+            return null;
+        }
+    }
+
+    private async run() {
+        if (!this.template || this.isBusy()) {
+            return;
+        }
+
+        const template = this.template;
+        // Busy before the first await, so a second click cannot start another run
+        const abortController = new AbortController();
+        this.abortController = abortController;
+        this.updateButtons();
+
+        let done = 0;
+        let failed = 0;
+        try {
+            const dryRun = await this.dryRun();
+            if (!dryRun) {
+                return;
+            }
+            const files = dryRun.plan.filter(item => !item.skipReason).map(item => item.file);
+            if (files.length === 0) {
+                new Notice('No notes to process.');
+                return;
+            }
+
+            const cost = dryRun.cost;
+            const check = this.usageLedger.checkBudget(cost);
+            if (check.exceeded && !(await new ConfirmModal(
+                this.app,
+                '💸 Monthly budget',
+                `Processing ${files.length} notes is estimated at $${cost.toFixed(4)}, which would bring this month's spending to ` +
+                `$${check.projected.toFixed(2)} of your $${check.budget.toFixed(2)} budget. Run anyway?`,
+                'Run anyway'
+            ).ask())) {
+                return;
+            }
+            // The modal was closed while planning or while the budget warning was open
+            if (abortController.signal.aborted) {
+                return;
+            }
+
+            this.stopButton.show();
+            await this.templateApplier.apply(template, files, this.output, this.instructions.getValue(), (result, index) => {
+                if (result.status === 'done') {
+                    done++;
+                } else {
+                    failed++;
+                }
+                this.renderResult(result);
+                this.statusEl.setText(`${index + 1} of ${files.length} notes · ${done} done, ${failed} failed`);
+            }, abortController.signal);
+
+            const summary = `${done} done, ${failed} failed`;
+            new Notice(abortController.signal.aborted ? `⏹️ Stopped: ${summary}` : `✨ Template applied: ${summary}`);
+        } catch (error) {
+            console.error('🚨 Applying the template failed:', error);
+            new Notice('❌ Applying the template failed. Check console for details.');
+        } finally {
+            if (this.abortController === abortController) {
+                this.abortController = null;
+                this.stopButton.hide();
+                this.updateButtons();
+            }
+        }
+    }
+
+    private renderPlan(plan: ApplyPlanItem[]) {
+        this.listEl.empty();
+        this.itemEls.clear();
+        this.listEl.toggle(plan.length > 0);
+
+        plan.forEach(item => {
+            const itemEl = this.listEl.createEl('li', { cls: 'apply-note' });
+            itemEl.toggleClass('is-skipped', !!item.skipReason);
+            itemEl.createSpan({ text: item.file.path });
+            itemEl.createSpan({ text: item.skipReason ? ` · skipped: ${item.skipReason}` : '', cls: 'apply-note-status' });
+            this.itemEls.set(item.file.path, itemEl);
+        });
+    }
+
+    private renderResult(result: ApplyResult) {
+        const itemEl = this.itemEls.get(result.file.path);
+        const statusEl = itemEl?.querySelector('.apply-note-status');
+        if (!itemEl || !statusEl) {
+            return;
+        }
+
+        itemEl.addClass(`is-${result.status}`);
+        statusEl.setText(result.status === 'done'
+            ? ` · ✓${result.message ? ` (${result.message})` : ''}`
+            : ` · ✗ ${result.message || ''}`);
+
+        if (result.notePath && result.notePath !== result.file.path) {
+            const notePath = result.notePath;
+            statusEl.createEl('a', { text: ' open', cls: 'apply-note-link' })
+                .addEventListener('click', () => this.app.workspace.openLinkText(notePath, '', true));
+        }
+    }
+
+    private isBusy(): boolean {
+        return this.planning || this.abortController !== null;
+    }
+
+    private updateButtons() {
+        const busy = this.isBusy();
+        this.dryRunButton.disabled = !this.template || busy;
+        this.runButton.disabled = !this.template || busy;
+    }
+
+    onClose() {
+        // Closing the modal stops after the current note; processed notes are marked and skipped next time
+        this.abortController?.abort();
+        this.abortController = null;
+        this.contentEl.empty();
+    }
+}
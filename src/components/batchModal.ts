@@ -0,0 +1,284 @@
+// src/components/batchModal.ts
+
+/**
+ * File: src/components/batchModal.ts
+ * Modal for filling a template once per row of a data file
+ */
+
+import { App, Modal, Notice, Setting, TFile, TextAreaComponent } from 'obsidian';
+import { TemplateDropdown } from './templateModal/templateDropdown';
+import { ConfirmModal } from './confirmModal';
+import { VaultItemSuggestModal } from './vaultItemSuggestModal';
+import { BatchFiller } from '../services/batchFiller';
+import { TemplateManager } from '../services/templateManager';
+import { UsageLedger } from '../services/usageLedger';
+import { Template } from '../types';
+import { BatchProgress } from '../types/batch';
+import { FillerInnerSettings } from '../types/settings';
+import { TableRow } from '../utils/tableData';
+
+const DATA_EXTENSIONS = ['csv', 'json', 'md'];
+
+export class BatchModal extends Modal {
+    private batchFiller: BatchFiller;
+    private templateManager: TemplateManager;
+    private usageLedger: UsageLedger;
+    private settings: FillerInnerSettings;
+
+    private dropdown!: TemplateDropdown;
+    private template: Template | null = null;
+    private source: TFile | null = null;
+    private rows: TableRow[] = [];
+    private concurrency: number;
+    private resume: boolean = true;
+    private instructions!: TextAreaComponent;
+
+    private sourceSetting!: Setting;
+    private mappingEl!: HTMLElement;
+    private resumeSetting!: Setting;
+    private progressEl!: HTMLElement;
+    private progressBar!: HTMLProgressElement;
+    private progressText!: HTMLElement;
+    private startButton!: HTMLButtonElement;
+    private stopButton!: HTMLButtonElement;
+    private abortController: AbortController | null = null;
+
+    constructor(
+        app: App,
+        batchFiller: BatchFiller,
+        templateManager: TemplateManager,
+        usageLedger: UsageLedger,
+        settings: FillerInnerSettings
+    ) {
+        super(app);
+        this.batchFiller = batchFiller;
+        this.templateManager = templateManager;
+        this.usageLedger = usageLedger;
+        this.settings = settings;
+        this.concurrency = settings.processing.batchConcurrency;
+        this.modalEl.addClass('filler-inner-modal');
+        this.titleEl.addClass('filler-inner-title');
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+        this.titleEl.setText('📦 Batch Fill');
+
+        new Setting(contentEl)
+            .setName('Template')
+            .setDesc('Filled once per row')
+            .then(setting => {
+                this.dropdown = new TemplateDropdown(setting.controlEl);
+                this.dropdown.onSelect(template => {
+                    this.template = template;
+                    this.refresh();
+                });
+            });
+
+        this.sourceSetting = new Setting(contentEl)
+            .setName('Data')
+            .setDesc('A CSV or JSON file, or a note with a Markdown table')
+            .addButton(button => button
+                .setButtonText('Choose…')
+                .onClick(() => {
+                    const files = this.app.vault.getFiles().filter(file => DATA_EXTENSIONS.includes(file.extension));
+                    new VaultItemSuggestModal(this.app, files, 'Choose a data file', file => this.loadSource(file)).open();
+                }));
+
+        // Which columns fill which template fields
+        this.mappingEl = contentEl.createDiv({ cls: 'batch-mapping' });
+        this.mappingEl.hide();
+
+        new Setting(contentEl)
+            .setName('Instructions')
+            .setDesc('Added to every row\'s prompt, before the row\'s values')
+            .addTextArea(text => {
+                this.instructions = text;
+                text.setPlaceholder('e.g. Write a warm onboarding plan for this client');
+                text.inputEl.rows = 3;
+            });
+
+        new Setting(contentEl)
+            .setName('Parallel requests')
+            .setDesc('Rows filled at the same time; lower this if the provider rate-limits you')
+            .addSlider(slider => slider
+                .setLimits(1, 8, 1)
+                .setValue(this.concurrency)
+                .setDynamicTooltip()
+                .onChange(value => {
+                    this.concurrency = value;
+                }));
+
+        this.resumeSetting = new Setting(contentEl)
+            .setName('Resume')
+            .addToggle(toggle => toggle
+                .setValue(this.resume)
+                .onChange(value => {
+                    this.resume = value;
+                }));
+        this.resumeSetting.settingEl.hide();
+
+        this.progressEl = contentEl.createDiv({ cls: 'batch-progress' });
+        this.progressBar = this.progressEl.createEl('progress');
+        this.progressText = this.progressEl.createDiv({ cls: 'batch-progress-text' });
+        this.progressEl.hide();
+
+        const footer = contentEl.createDiv('modal-footer');
+        footer.createEl('button', { text: 'Close', cls: 'cancel-button' })
+            .addEventListener('click', () => this.close());
+
+        this.stopButton = footer.createEl('button', { text: 'Stop', cls: 'stop-button' });
+        this.stopButton.hide();
+        this.stopButton.addEventListener('click', () => this.abortController?.abort());
+
+        this.startButton = footer.createEl('button', { text: 'Start', cls: 'mod-cta' });
+        this.startButton.disabled = true;
+        this.startButton.addEventListener('click', () => this.start());
+
+        this.loadTemplates();
+    }
+
+    private async loadTemplates() {
+        try {
+            this.dropdown.setTemplates(await this.templateManager.getTemplates());
+        } catch (error) {
+            console.error('📚 Failed to load templates:', error);
+            new Notice('❌ Failed to load templates. Check console for details.');
+        }
+    }
+
+    private async loadSource(file: TFile) {
+        try {
+            this.rows = await this.batchFiller.loadRows(file);
+            this.source = file;
+        } catch (error: any) {
+            new Notice(`❌ Could not read ${file.name}: ${error.message}`);
+            return;
+        }
+        this.sourceSetting.setDesc(`${file.path} · ${this.rows.length} row${this.rows.length === 1 ? '' : 's'}`);
+        this.refresh();
+    }
+
+    /**
+     * Shows the column mapping and any earlier run once both a template and a data file are chosen
+     */
+    private refresh() {
+        const ready = this.template !== null && this.source !== null && this.rows.length > 0;
+        this.startButton.disabled = !ready || this.abortController !== null;
+        this.mappingEl.empty();
+        this.mappingEl.toggle(ready);
+        this.resumeSetting.settingEl.hide();
+        if (!ready) {
+            return;
+        }
+
+        const template = this.template!;
+        const columns = Object.keys(this.rows[0]);
+        const matched = Object.keys(this.batchFiller.getFieldValues(template, this.rows[0]));
+        const missing = template.fields.map(field => field.name).filter(name => !matched.includes(name));
+
+        this.mappingEl.createDiv({ text: `Columns: ${columns.join(', ')}` });
+        if (template.fields.length > 0) {
+            this.mappingEl.createDiv({ text: `Fields from columns: ${matched.join(', ') || 'none'}` });
+        }
+        if (missing.length > 0) {
+            this.mappingEl.createDiv({
+                text: `⚠️ No column for: ${missing.join(', ')}. The model fills these from the row's values.`,
+                cls: 'batch-mapping-warning'
+            });
+        }
+
+        // An earlier run of the same template over the same file can be picked up where it stopped
+        const run = this.batchFiller.getRun(template, this.source!);
+        const filled = run ? Object.values(run.rows).filter(row => row.status === 'done' || row.status === 'skipped').length : 0;
+        if (run && filled > 0) {
+            this.resumeSetting.setDesc(`Skip the ${filled} unchanged row${filled === 1 ? '' : 's'} filled by the run started ` +
+                `${new Date(run.startedAt).toLocaleString()}`);
+            this.resumeSetting.settingEl.show();
+        }
+    }
+
+    private async start() {
+        if (!this.template || !this.source || this.abortController) {
+            return;
+        }
+
+        const template = this.template;
+        const source = this.source;
+        const rows = this.rows;
+
+        // Busy before the first await, so a second click cannot start another run
+        const abortController = new AbortController();
+        this.abortController = abortController;
+        this.startButton.disabled = true;
+
+        try {
+            const instructions = this.instructions.getValue();
+            const cost = await this.batchFiller.estimateCost(template, rows, instructions);
+            const check = this.usageLedger.checkBudget(cost);
+            if (check.exceeded && !(await new ConfirmModal(
+                this.app,
+                '💸 Monthly budget',
+                `Filling ${rows.length} rows is estimated at up to $${cost.toFixed(4)}, which would bring this month's spending to ` +
+                `$${check.projected.toFixed(2)} of your $${check.budget.toFixed(2)} budget. Start anyway?`,
+                'Start anyway'
+            ).ask())) {
+                return;
+            }
+            // The modal was closed while the estimate or the budget warning was open
+            if (abortController.signal.aborted) {
+                return;
+            }
+
+            this.stopButton.show();
+            this.progressEl.show();
+
+            const summary = await this.batchFiller.run({
+                template,
+                source,
+                rows,
+                instructions,
+                concurrency: this.concurrency,
+                resume: this.resume
+            }, progress => this.showProgress(progress), abortController.signal);
+
+            this.showProgress(summary);
+            const result = `${summary.done} filled, ${summary.skipped} skipped, ${summary.failed} failed`;
+            new Notice(summary.stopped ? `⏹️ Batch stopped: ${result}` : `✨ Batch finished: ${result}`);
+
+            if (summary.report) {
+                const reportPath = summary.report;
+                this.progressText.createEl('a', { text: 'Open report', cls: 'batch-report-link' })
+                    .addEventListener('click', () => {
+                        this.app.workspace.openLinkText(reportPath, '', true);
+                        this.close();
+                    });
+            }
+        } catch (error) {
+            console.error('🚨 Batch fill failed:', error);
+            new Notice('❌ Batch fill failed. Check console for details.');
+        } finally {
+            if (this.abortController === abortController) {
+                this.abortController = null;
+                this.stopButton.hide();
+                this.refresh();
+            }
+        }
+    }
+
+    private showProgress(progress: BatchProgress) {
+        const processed = progress.done + progress.failed + progress.skipped;
+        this.progressBar.max = Math.max(progress.total, 1);
+        this.progressBar.value = processed;
+        this.progressText.setText(`${processed} of ${progress.total} rows · ${progress.done} filled, ` +
+            `${progress.skipped} skipped, ${progress.failed} failed `);
+    }
+
+    onClose() {
+        // Closing the modal stops the batch; finished rows are kept and can be resumed
+        this.abortController?.abort();
+        this.abortController = null;
+        this.contentEl.empty();
+    }
+}
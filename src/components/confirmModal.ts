@@ -0,0 +1,64 @@
+// src/components/confirmModal.ts
+
+/**
+ * File: src/components/confirmModal.ts
+ * Simple yes/no confirmation dialog
+ */
+
+import { App, Modal } from 'obsidian';
+
+export class ConfirmModal extends Modal {
+    private message: string;
+    private confirmText: string;
+    private details: string[];
+    private resolve: ((confirmed: boolean) => void) | null = null;
+
+    constructor(app: App, title: string, message: string, confirmText: string = 'Continue', details: string[] = []) {
+        super(app);
+        this.titleEl.setText(title);
+        this.message = message;
+        this.confirmText = confirmText;
+        this.details = details;
+        this.modalEl.addClass('filler-inner-confirm-modal');
+    }
+
+    /**
+     * Open the dialog and wait for the user's answer
+     * @returns Promise<boolean> True when the user confirmed; false when they cancelled or closed the dialog
+     */
+    ask(): Promise<boolean> {
+        return new Promise(resolve => {
+            this.resolve = resolve;
+            this.open();
+        });
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.createEl('p', { text: this.message });
+        if (this.details.length > 0) {
+            const list = contentEl.createEl('ul', { cls: 'confirm-details' });
+            this.details.forEach(detail => list.createEl('li', { text: detail }));
+        }
+
+        const footer = contentEl.createDiv('modal-footer');
+        footer.createEl('button', { text: 'Cancel', cls: 'cancel-button' })
+            .addEventListener('click', () => this.finish(false));
+        footer.createEl('button', { text: this.confirmText, cls: 'mod-cta' })
+            .addEventListener('click', () => this.finish(true));
+    }
+
+    onClose() {
+        this.contentEl.empty();
+        // Closing with Escape or the close button counts as cancelling
+        this.resolve?.(false);
+        this.resolve = null;
+    }
+
+    private finish(confirmed: boolean) {
+        this.resolve?.(confirmed);
+        this.resolve = null;
+        this.close();
+    }
+}
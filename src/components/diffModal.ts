@@ -0,0 +1,87 @@
+// src/components/diffModal.ts
+
+/**
+ * File: src/components/diffModal.ts
+ * Shows the changes to a note and asks whether to apply them
+ */
+
+import { App, Modal } from 'obsidian';
+import { diffLines } from '../utils/diff';
+
+// Unchanged lines shown around each change
+const CONTEXT_LINES = 2;
+
+export class DiffModal extends Modal {
+    private before: string;
+    private after: string;
+    private confirmText: string;
+    private resolve: ((confirmed: boolean) => void) | null = null;
+
+    constructor(app: App, title: string, before: string, after: string, confirmText: string = 'Apply') {
+        super(app);
+        this.titleEl.setText(title);
+        this.before = before;
+        this.after = after;
+        this.confirmText = confirmText;
+        this.modalEl.addClass('filler-inner-diff-modal');
+    }
+
+    /**
+     * Open the dialog and wait for the user's answer
+     * @returns Promise<boolean> True when the user applied the changes; false when they cancelled or closed the dialog
+     */
+    ask(): Promise<boolean> {
+        return new Promise(resolve => {
+            this.resolve = resolve;
+            this.open();
+        });
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+
+        const lines = diffLines(this.before, this.after);
+        const diffEl = contentEl.createDiv({ cls: 'filler-inner-diff' });
+
+        // Long unchanged stretches are collapsed to the lines around the changes
+        const changed = lines.map(line => line.type !== 'same');
+        const visible = lines.map((_, i) =>
+            changed.slice(Math.max(0, i - CONTEXT_LINES), i + CONTEXT_LINES + 1).some(Boolean)
+        );
+
+        let skipping = false;
+        lines.forEach((line, i) => {
+            if (!visible[i]) {
+                if (!skipping) {
+                    diffEl.createDiv({ text: '⋯', cls: 'diff-line diff-skipped' });
+                }
+                skipping = true;
+                return;
+            }
+            skipping = false;
+
+            const prefix = line.type === 'added' ? '+ ' : line.type === 'removed' ? '- ' : '  ';
+            diffEl.createDiv({ text: prefix + line.text, cls: `diff-line diff-${line.type}` });
+        });
+
+        const footer = contentEl.createDiv('modal-footer');
+        footer.createEl('button', { text: 'Cancel', cls: 'cancel-button' })
+            .addEventListener('click', () => this.finish(false));
+        footer.createEl('button', { text: this.confirmText, cls: 'mod-cta' })
+            .addEventListener('click', () => this.finish(true));
+    }
+
+    onClose() {
+        this.contentEl.empty();
+        // Closing with Escape or the close button counts as cancelling
+        this.resolve?.(false);
+        this.resolve = null;
+    }
+
+    private finish(confirmed: boolean) {
+        this.resolve?.(confirmed);
+        this.resolve = null;
+        this.close();
+    }
+}
@@ -13,6 +13,10 @@ import { TemplateManager } from '../services/templateManager';
 import { LLMService } from '../services/ai/llmService';
 import { PromptOptimizer } from '../services/ai/promptOptimizer';
 import { FileService } from '../services/fileService';
+import { UsageLedger } from '../services/usageLedger';
+import { VaultSearchIndex } from '../services/vaultSearchIndex';
+import { ModelCatalog } from '../services/ai/modelCatalog';
+import { FillerInnerSettings } from '../types/settings';
 
 // Re-export components with their props
 export {
@@ -30,9 +34,13 @@ export const createModal = (
     templateManager: TemplateManager,
     llmService: LLMService,
     promptOptimizer: PromptOptimizer,
-    fileService: FileService
+    fileService: FileService,
+    usageLedger: UsageLedger,
+    settings: FillerInnerSettings,
+    vaultSearchIndex: VaultSearchIndex,
+    modelCatalog: ModelCatalog
 ): TemplateModal => {
-    return new TemplateModal(app, templateManager, llmService, promptOptimizer, fileService);
+    return new TemplateModal(app, templateManager, llmService, promptOptimizer, fileService, usageLedger, settings, vaultSearchIndex, modelCatalog);
 };
 
 // Export utility functions
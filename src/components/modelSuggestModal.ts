@@ -0,0 +1,63 @@
+// src/components/modelSuggestModal.ts
+
+/**
+ * File: src/components/modelSuggestModal.ts
+ * Searchable model picker showing context window, output limit and pricing
+ */
+
+import { App, FuzzyMatch, FuzzySuggestModal } from 'obsidian';
+import { AIModel } from '../types/aiModels';
+
+export class ModelSuggestModal extends FuzzySuggestModal<AIModel> {
+    private models: AIModel[];
+    private onChoose: (model: AIModel) => void;
+
+    constructor(app: App, models: AIModel[], onChoose: (model: AIModel) => void) {
+        super(app);
+        this.models = models;
+        this.onChoose = onChoose;
+        this.setPlaceholder('Search models...');
+    }
+
+    getItems(): AIModel[] {
+        return this.models;
+    }
+
+    getItemText(model: AIModel): string {
+        return `${model.displayName} ${model.apiName}`;
+    }
+
+    renderSuggestion(match: FuzzyMatch<AIModel>, el: HTMLElement): void {
+        const model = match.item;
+        el.addClass('model-suggestion');
+        el.createDiv({ text: model.displayName, cls: 'model-suggestion-name' });
+        el.createDiv({ text: ModelSuggestModal.describe(model), cls: 'model-suggestion-details' });
+    }
+
+    onChooseItem(model: AIModel): void {
+        this.onChoose(model);
+    }
+
+    /**
+     * One-line summary of a model's limits and pricing
+     * @param model The model to describe
+     * @returns Text such as "gpt-4o · 128k context · 16k output · $2.50 / $10.00 per 1M tokens"
+     */
+    static describe(model: AIModel): string {
+        const parts = [model.apiName];
+        if (model.contextLength) {
+            parts.push(`${formatTokenCount(model.contextLength)} context`);
+        }
+        parts.push(`${formatTokenCount(model.maxTokens)} output`);
+        if (model.pricing) {
+            parts.push(model.pricing.input === 0 && model.pricing.output === 0
+                ? 'free'
+                : `$${model.pricing.input.toFixed(2)} / $${model.pricing.output.toFixed(2)} per 1M tokens`);
+        }
+        return parts.join(' · ');
+    }
+}
+
+function formatTokenCount(tokens: number): string {
+    return tokens >= 1000 ? `${Math.round(tokens / 1000)}k` : String(tokens);
+}
@@ -0,0 +1,172 @@
+// src/components/reviewModal.ts
+
+/**
+ * File: src/components/reviewModal.ts
+ * Shows a generated note for review before it is saved
+ */
+
+import { App, Component, MarkdownRenderer, Modal, Setting } from 'obsidian';
+import { ModelSuggestModal } from './modelSuggestModal';
+import { GenerationOverrides, AIModel, AIProvider } from '../types/aiModels';
+import { ReviewDecision } from '../types';
+import { PROVIDER_NAMES } from '../utils/constants';
+
+/**
+ * Lets the reviewer regenerate, optionally with another provider or model
+ */
+export interface ReviewRetryOptions {
+    /** Provider and model the note was generated with */
+    provider: AIProvider;
+    model: string;
+    /** Models to offer for a provider */
+    listModels: (provider: AIProvider) => Promise<AIModel[]>;
+}
+
+export class ReviewModal extends Modal {
+    private content: string;
+    private sourcePath: string;
+    private confirmText: string;
+    private retry: ReviewRetryOptions | null;
+    private provider: AIProvider | null = null;
+    private model: string = '';
+    private renderer: Component = new Component();
+    private previewEl!: HTMLElement;
+    private sourceEl!: HTMLTextAreaElement;
+    private resolve: ((decision: ReviewDecision) => void) | null = null;
+
+    /**
+     * @param content The generated note
+     * @param sourcePath Path links in the preview resolve from
+     * @param confirmText Label of the accept button
+     * @param retry Enables regenerating; omit when the note cannot be regenerated as a whole
+     */
+    constructor(app: App, content: string, sourcePath: string, confirmText: string, retry: ReviewRetryOptions | null = null) {
+        super(app);
+        this.titleEl.setText('🔍 Review');
+        this.content = content;
+        this.sourcePath = sourcePath;
+        this.confirmText = confirmText;
+        this.retry = retry;
+        if (retry) {
+            this.provider = retry.provider;
+            this.model = retry.model;
+        }
+        this.modalEl.addClass('filler-inner-review-modal');
+    }
+
+    /**
+     * Open the review and wait for the user's decision
+     * @returns Promise<ReviewDecision> The edited note to save, a request to regenerate (with the edited note
+     * to fall back on), or discard when
+     * the user discarded the note or closed the review
+     */
+    ask(): Promise<ReviewDecision> {
+        return new Promise(resolve => {
+            this.resolve = resolve;
+            this.open();
+        });
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+        this.renderer.load();
+
+        const tabs = contentEl.createDiv({ cls: 'review-tabs' });
+        const previewTab = tabs.createEl('button', { text: 'Preview', cls: 'review-tab is-active' });
+        const sourceTab = tabs.createEl('button', { text: 'Source', cls: 'review-tab' });
+
+        this.previewEl = contentEl.createDiv({ cls: 'review-preview markdown-rendered' });
+        this.sourceEl = contentEl.createEl('textarea', { cls: 'review-source' });
+        this.sourceEl.value = this.content;
+        this.sourceEl.hide();
+
+        previewTab.addEventListener('click', () => {
+            previewTab.addClass('is-active');
+            sourceTab.removeClass('is-active');
+            this.sourceEl.hide();
+            this.previewEl.show();
+            this.renderPreview();
+        });
+        sourceTab.addEventListener('click', () => {
+            sourceTab.addClass('is-active');
+            previewTab.removeClass('is-active');
+            this.previewEl.hide();
+            this.sourceEl.show();
+            this.sourceEl.focus();
+        });
+        this.renderPreview();
+
+        if (this.retry) {
+            this.addRetrySetting(contentEl, this.retry);
+        }
+
+        const footer = contentEl.createDiv('modal-footer');
+        footer.createEl('button', { text: 'Discard', cls: 'cancel-button' })
+            .addEventListener('click', () => this.finish({ action: 'discard' }));
+        if (this.retry) {
+            footer.createEl('button', { text: 'Regenerate' })
+                .addEventListener('click', () => this.finish({ action: 'regenerate', overrides: this.getOverrides(), content: this.sourceEl.value }));
+        }
+        footer.createEl('button', { text: this.confirmText, cls: 'mod-cta' })
+            .addEventListener('click', () => this.finish({ action: 'accept', content: this.sourceEl.value }));
+    }
+
+    /**
+     * Provider and model to regenerate with; they start as the ones the note was generated with
+     */
+    private addRetrySetting(containerEl: HTMLElement, retry: ReviewRetryOptions) {
+        const setting = new Setting(containerEl)
+            .setName('Model')
+            .setDesc(this.model || 'default');
+
+        setting
+            .addDropdown(dropdown => dropdown
+                .addOptions(PROVIDER_NAMES)
+                .setValue(retry.provider)
+                .onChange(value => {
+                    this.provider = value as AIProvider;
+                    // Another provider's default model until one is chosen
+                    this.model = '';
+                    setting.setDesc('provider default');
+                }))
+            .addButton(button => button
+                .setButtonText('Choose model…')
+                .onClick(async () => {
+                    const models = await retry.listModels(this.provider || retry.provider);
+                    new ModelSuggestModal(this.app, models, model => {
+                        this.model = model.apiName;
+                        setting.setDesc(ModelSuggestModal.describe(model));
+                    }).open();
+                }));
+    }
+
+    private getOverrides(): GenerationOverrides {
+        if (!this.retry || (this.provider === this.retry.provider && this.model === this.retry.model)) {
+            return {};
+        }
+        return {
+            provider: this.provider || undefined,
+            model: this.model || undefined
+        };
+    }
+
+    private renderPreview() {
+        this.previewEl.empty();
+        MarkdownRenderer.render(this.app, this.sourceEl.value, this.previewEl, this.sourcePath, this.renderer);
+    }
+
+    private finish(decision: ReviewDecision) {
+        this.resolve?.(decision);
+        this.resolve = null;
+        this.close();
+    }
+
+    onClose() {
+        this.renderer.unload();
+        this.contentEl.empty();
+        // Closing with Escape or the close button counts as discarding
+        this.resolve?.({ action: 'discard' });
+        this.resolve = null;
+    }
+}
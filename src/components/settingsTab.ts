@@ -5,10 +5,13 @@
  * Settings tab component for plugin configuration
  */
 
-import { App, PluginSettingTab, Setting } from 'obsidian';
+import { App, Notice, PluginSettingTab, Setting } from 'obsidian';
 import type FillerInnerPlugin from '../../main';  // Updated import path
-import { FillerInnerSettings, LLMProvider } from '../types/settings';
-import { AIModelUtils, AIProvider } from '../types/aiModels';
+import { DEFAULT_SETTINGS, DEFAULT_SYSTEM_PROMPT, FillerInnerSettings, LLMProvider } from '../types/settings';
+import { AIModelUtils, AIProvider, DEFAULT_MAX_TOKENS } from '../types/aiModels';
+import { ModelSuggestModal } from './modelSuggestModal';
+import { ConfirmModal } from './confirmModal';
+import { PROVIDER_NAMES } from '../utils/constants';
 
 export class FillerInnerSettingTab extends PluginSettingTab {
     private plugin: FillerInnerPlugin;
@@ -29,6 +32,7 @@ export class FillerInnerSettingTab extends PluginSettingTab {
         this.addLLMSettings();
         this.addPathSettings();
         this.addProcessingSettings();
+        this.addUsageSettings();
         this.addGeneralSettings();
     }
 
@@ -56,58 +60,69 @@ export class FillerInnerSettingTab extends PluginSettingTab {
             .setName('LLM Provider')
             .setDesc('Select your preferred Language Model provider')
             .addDropdown(dropdown => {
-                // Add providers explicitly to avoid enum value duplicates
-                dropdown.addOption(AIProvider.OpenRouter, 'OpenRouter');
-                dropdown.addOption(AIProvider.LMStudio, 'LMStudio');
+                dropdown.addOptions(PROVIDER_NAMES);
                 
                 dropdown
                     .setValue(this.settings.llm.provider)
                     .onChange(async (value) => {
                         this.settings.llm.provider = value as LLMProvider;
+                        // Each provider keeps its own key
+                        this.settings.llm.apiKey = this.settings.llm.apiKeys?.[value as LLMProvider] || '';
                         // Reset model to default for the new provider
                         const defaultModel = AIModelUtils.getModelsByProvider(value as AIProvider)[0];
                         this.settings.llm.model = defaultModel?.apiName || '';
+                        // Custom endpoints are provider-specific
+                        this.settings.llm.apiUrl = undefined;
                         await this.plugin.saveSettings();
                         this.display(); // Refresh to show/hide relevant settings
                     });
             });
 
-        // API Key
-        new Setting(section)
-            .setName('API Key')
-            .setDesc('Enter your API key for the selected provider')
-            .addText(text => text
-                .setPlaceholder('Enter API key')
-                .setValue(this.settings.llm.apiKey || '')
-                .onChange(async (value) => {
-                    this.settings.llm.apiKey = value;
-                    await this.plugin.saveSettings();
-                })
-            )
-            .addExtraButton(button => button
-                .setIcon('help-circle')
-                .setTooltip('How to get an API key')
-                .onClick(() => {
-                    window.open(this.getProviderApiKeyUrl());
-                })
-            );
+        if (this.settings.llm.provider === LLMProvider.LMStudio) {
+            this.addLMStudioServerSettings(section);
+        } else {
+            // API Key
+            new Setting(section)
+                .setName('API Key')
+                .setDesc('Enter your API key for the selected provider')
+                .addText(text => text
+                    .setPlaceholder('Enter API key')
+                    .setValue(this.settings.llm.apiKey || '')
+                    .onChange(async (value) => {
+                        this.settings.llm.apiKey = value;
+                        this.settings.llm.apiKeys = {
+                            ...this.settings.llm.apiKeys,
+                            [this.settings.llm.provider]: value
+                        };
+                        await this.plugin.saveSettings();
+                    })
+                )
+                .addExtraButton(button => button
+                    .setIcon('help-circle')
+                    .setTooltip('How to get an API key')
+                    .onClick(() => {
+                        window.open(this.getProviderApiKeyUrl());
+                    })
+                );
+        }
 
-        // Model Selection
-        new Setting(section)
-            .setName('Model')
-            .setDesc('Select the specific model to use')
-            .addDropdown(dropdown => {
-                const models = AIModelUtils.getModelsByProvider(this.settings.llm.provider as unknown as AIProvider);
-                models.forEach(model => {
-                    dropdown.addOption(model.apiName, model.displayName);
-                });
-                dropdown
-                    .setValue(this.settings.llm.model)
+        // Custom endpoint (Azure deployments, self-hosted OpenAI-compatible gateways)
+        if (this.settings.llm.provider === LLMProvider.OpenAI) {
+            new Setting(section)
+                .setName('API URL')
+                .setDesc('Chat completions endpoint. Leave empty to use api.openai.com')
+                .addText(text => text
+                    .setPlaceholder('https://api.openai.com/v1/chat/completions')
+                    .setValue(this.settings.llm.apiUrl || '')
                     .onChange(async (value) => {
-                        this.settings.llm.model = value;
+                        this.settings.llm.apiUrl = value.trim() || undefined;
                         await this.plugin.saveSettings();
-                    });
-            });
+                    })
+                );
+        }
+
+        // Model Selection
+        this.addModelSetting(section);
 
         // Temperature
         new Setting(section)
@@ -126,9 +141,9 @@ export class FillerInnerSettingTab extends PluginSettingTab {
         // Max Tokens
         new Setting(section)
             .setName('Max Tokens')
-            .setDesc('Maximum length of generated content')
+            .setDesc('Maximum length of generated content, capped at the selected model\'s output limit')
             .addSlider(slider => slider
-                .setLimits(100, 4000, 100)
+                .setLimits(100, this.plugin.modelCatalog.getModel(this.settings.llm.model)?.maxTokens || DEFAULT_MAX_TOKENS, 100)
                 .setValue(this.settings.llm.maxTokens)
                 .setDynamicTooltip()
                 .onChange(async (value) => {
@@ -136,6 +151,95 @@ export class FillerInnerSettingTab extends PluginSettingTab {
                     await this.plugin.saveSettings();
                 })
             );
+
+        // System Prompt
+        new Setting(section)
+            .setName('System Prompt')
+            .setDesc('Rules sent with every fill. Templates can add their own under "filler-inner: systemPrompt" in frontmatter')
+            .addTextArea(text => text
+                .setPlaceholder('Enter system prompt')
+                .setValue(this.settings.llm.systemPrompt)
+                .onChange(async (value) => {
+                    this.settings.llm.systemPrompt = value;
+                    await this.plugin.saveSettings();
+                })
+            )
+            .addExtraButton(button => button
+                .setIcon('reset')
+                .setTooltip('Restore default system prompt')
+                .onClick(async () => {
+                    this.settings.llm.systemPrompt = DEFAULT_SYSTEM_PROMPT;
+                    await this.plugin.saveSettings();
+                    this.display();
+                })
+            );
+    }
+
+    private addLMStudioServerSettings(section: HTMLElement): void {
+        // Server host
+        new Setting(section)
+            .setName('LM Studio Host')
+            .setDesc('Host of the local LM Studio server')
+            .addText(text => text
+                .setPlaceholder('localhost')
+                .setValue(this.settings.llm.lmStudioHost || '')
+                .onChange(async (value) => {
+                    this.settings.llm.lmStudioHost = value.trim() || undefined;
+                    await this.plugin.saveSettings();
+                })
+            );
+
+        // Server port
+        new Setting(section)
+            .setName('LM Studio Port')
+            .setDesc('Port the LM Studio server listens on')
+            .addText(text => text
+                .setPlaceholder('1234')
+                .setValue(this.settings.llm.lmStudioPort ? String(this.settings.llm.lmStudioPort) : '')
+                .onChange(async (value) => {
+                    const port = parseInt(value, 10);
+                    this.settings.llm.lmStudioPort = Number.isNaN(port) ? undefined : port;
+                    await this.plugin.saveSettings();
+                })
+            );
+    }
+
+    private addModelSetting(section: HTMLElement): void {
+        const current = this.plugin.modelCatalog.getModel(this.settings.llm.model);
+
+        new Setting(section)
+            .setName('Model')
+            .setDesc(current ? ModelSuggestModal.describe(current) : (this.settings.llm.model || 'No model selected'))
+            .addButton(button => button
+                .setButtonText(current?.displayName || this.settings.llm.model || 'Select model')
+                .onClick(async () => {
+                    button.setDisabled(true);
+                    const models = await this.plugin.modelCatalog.getModels();
+                    button.setDisabled(false);
+
+                    if (models.length === 0) {
+                        new Notice(this.settings.llm.provider === LLMProvider.LMStudio
+                            ? 'No models found. Is the LM Studio server running?'
+                            : 'No models available for this provider.');
+                        return;
+                    }
+
+                    new ModelSuggestModal(this.app, models, async (model) => {
+                        this.settings.llm.model = model.apiName;
+                        this.settings.llm.maxTokens = Math.min(this.settings.llm.maxTokens, model.maxTokens);
+                        await this.plugin.saveSettings();
+                        this.display();
+                    }).open();
+                })
+            )
+            .addExtraButton(button => button
+                .setIcon('refresh-cw')
+                .setTooltip('Reload model list from the provider')
+                .onClick(async () => {
+                    await this.plugin.modelCatalog.getModels(true);
+                    this.display();
+                })
+            );
     }
 
     private addPathSettings(): void {
@@ -161,6 +265,82 @@ export class FillerInnerSettingTab extends PluginSettingTab {
                 })
             );
 
+        // Additional Template Folders
+        new Setting(section)
+            .setName('Additional Template Folders')
+            .setDesc('More folders to search for templates, one per line')
+            .addTextArea(text => text
+                .setPlaceholder('meetings/templates')
+                .setValue(this.settings.discovery.extraFolders.join('\n'))
+                .onChange(async (value) => {
+                    this.settings.discovery.extraFolders = this.parseLines(value);
+                    await this.plugin.saveSettings();
+                })
+            );
+
+        // Template Tag
+        new Setting(section)
+            .setName('Template Tag')
+            .setDesc('Notes with this tag are templates wherever they are. Notes can also set "template: true" under "filler-inner" in their frontmatter.')
+            .addText(text => text
+                .setPlaceholder('template')
+                .setValue(this.settings.discovery.templateTag)
+                .onChange(async (value) => {
+                    this.settings.discovery.templateTag = value.trim();
+                    await this.plugin.saveSettings();
+                })
+            );
+
+        // Core Templates Folder
+        new Setting(section)
+            .setName('Use Core Templates Folder')
+            .setDesc('Also search the folder set in Obsidian\'s Templates plugin')
+            .addToggle(toggle => toggle
+                .setValue(this.settings.discovery.useCoreTemplatesFolder)
+                .onChange(async (value) => {
+                    this.settings.discovery.useCoreTemplatesFolder = value;
+                    await this.plugin.saveSettings();
+                })
+            );
+
+        // Templater Folder
+        new Setting(section)
+            .setName('Use Templater Folder')
+            .setDesc('Also search the template folder set in the Templater plugin')
+            .addToggle(toggle => toggle
+                .setValue(this.settings.discovery.useTemplaterFolder)
+                .onChange(async (value) => {
+                    this.settings.discovery.useTemplaterFolder = value;
+                    await this.plugin.saveSettings();
+                })
+            );
+
+        // Include Patterns
+        new Setting(section)
+            .setName('Include Patterns')
+            .setDesc('Only notes matching one of these globs are templates, one per line (empty allows all)')
+            .addTextArea(text => text
+                .setPlaceholder('templates/**')
+                .setValue(this.settings.discovery.include.join('\n'))
+                .onChange(async (value) => {
+                    this.settings.discovery.include = this.parseLines(value);
+                    await this.plugin.saveSettings();
+                })
+            );
+
+        // Exclude Patterns
+        new Setting(section)
+            .setName('Exclude Patterns')
+            .setDesc('Notes matching one of these globs are never templates, one per line')
+            .addTextArea(text => text
+                .setPlaceholder('**/archive/**')
+                .setValue(this.settings.discovery.exclude.join('\n'))
+                .onChange(async (value) => {
+                    this.settings.discovery.exclude = this.parseLines(value);
+                    await this.plugin.saveSettings();
+                })
+            );
+
         // Output Path
         new Setting(section)
             .setName('Output Folder')
@@ -173,6 +353,19 @@ export class FillerInnerSettingTab extends PluginSettingTab {
                     await this.plugin.saveSettings();
                 })
             );
+
+        // File Name Pattern
+        new Setting(section)
+            .setName('File Name Pattern')
+            .setDesc('Name for filled notes. Tokens: {{template}}, {{date:YYYY-MM-DD}}, {{field:name}}, {{title}} (suggested by the model). Use / for subfolders.')
+            .addText(text => text
+                .setPlaceholder(DEFAULT_SETTINGS.paths.filenamePattern)
+                .setValue(this.settings.paths.filenamePattern)
+                .onChange(async (value) => {
+                    this.settings.paths.filenamePattern = value;
+                    await this.plugin.saveSettings();
+                })
+            );
     }
 
     private addProcessingSettings(): void {
@@ -233,6 +426,135 @@ export class FillerInnerSettingTab extends PluginSettingTab {
                     await this.plugin.saveSettings();
                 })
             );
+
+        // Provenance
+        new Setting(section)
+            .setName('Record Provenance')
+            .setDesc('Add the source template, model, generation time and a hash of the prompt to generated notes')
+            .addToggle(toggle => toggle
+                .setValue(this.settings.processing.addProvenance)
+                .onChange(async (value) => {
+                    this.settings.processing.addProvenance = value;
+                    await this.plugin.saveSettings();
+                })
+            );
+
+        // Structure Check
+        new Setting(section)
+            .setName('Structure Check')
+            .setDesc('Compare filled notes with the template\'s headings, frontmatter, tables and lists before saving')
+            .addToggle(toggle => toggle
+                .setValue(this.settings.processing.checkStructure)
+                .onChange(async (value) => {
+                    this.settings.processing.checkStructure = value;
+                    await this.plugin.saveSettings();
+                })
+            );
+
+        // Structure Repair Attempts
+        new Setting(section)
+            .setName('Repair Attempts')
+            .setDesc('How many times to ask the model to fix a note that lost the template\'s structure (0 only warns)')
+            .addSlider(slider => slider
+                .setLimits(0, 3, 1)
+                .setValue(this.settings.processing.structureRepairAttempts)
+                .setDynamicTooltip()
+                .onChange(async (value) => {
+                    this.settings.processing.structureRepairAttempts = value;
+                    await this.plugin.saveSettings();
+                })
+            );
+
+        // Context Token Budget
+        new Setting(section)
+            .setName('Context Token Budget')
+            .setDesc('Maximum estimated tokens of attached notes sent with a fill; larger context is cut short (0 for no limit)')
+            .addText(text => text
+                .setPlaceholder('8000')
+                .setValue(String(this.settings.processing.contextTokenBudget))
+                .onChange(async (value) => {
+                    const budget = parseInt(value, 10);
+                    this.settings.processing.contextTokenBudget = Number.isNaN(budget) || budget < 0 ? 0 : budget;
+                    await this.plugin.saveSettings();
+                })
+            );
+
+        // Vault Search Passages
+        new Setting(section)
+            .setName('Vault Search Passages')
+            .setDesc('How many passages related to the prompt and template to find in your notes and add as context, offline (0 disables)')
+            .addSlider(slider => slider
+                .setLimits(0, 20, 1)
+                .setValue(this.settings.processing.vaultSearchResults)
+                .setDynamicTooltip()
+                .onChange(async (value) => {
+                    this.settings.processing.vaultSearchResults = value;
+                    await this.plugin.saveSettings();
+                })
+            );
+
+        // Batch Concurrency
+        new Setting(section)
+            .setName('Batch Parallel Requests')
+            .setDesc('How many rows of a batch fill are generated at the same time')
+            .addSlider(slider => slider
+                .setLimits(1, 8, 1)
+                .setValue(this.settings.processing.batchConcurrency)
+                .setDynamicTooltip()
+                .onChange(async (value) => {
+                    this.settings.processing.batchConcurrency = value;
+                    await this.plugin.saveSettings();
+                })
+            );
+    }
+
+    private addUsageSettings(): void {
+        const section = this.containerEl.createEl('div', { 
+            cls: 'settings-section' 
+        });
+        
+        section.createEl('h3', { 
+            text: 'Usage and Costs',
+            cls: 'section-header' 
+        });
+
+        // Monthly Budget
+        new Setting(section)
+            .setName('Monthly Budget')
+            .setDesc('Warn before a fill would take this month\'s estimated spending over this amount in USD (0 to disable)')
+            .addText(text => text
+                .setPlaceholder('0')
+                .setValue(String(this.settings.usage.monthlyBudget || 0))
+                .onChange(async (value) => {
+                    const budget = parseFloat(value);
+                    this.settings.usage.monthlyBudget = Number.isNaN(budget) || budget < 0 ? 0 : budget;
+                    await this.plugin.saveSettings();
+                })
+            );
+
+        // Usage Ledger
+        new Setting(section)
+            .setName('Usage Ledger')
+            .setDesc(`${this.plugin.usageLedger.getRecords().length} generations recorded`)
+            .addButton(button => button
+                .setButtonText('Open')
+                .onClick(() => this.plugin.openUsageView())
+            )
+            .addButton(button => button
+                .setButtonText('Clear')
+                .setWarning()
+                .onClick(async () => {
+                    const confirmed = await new ConfirmModal(
+                        this.app,
+                        'Clear usage ledger',
+                        'Delete all recorded generations? This cannot be undone.',
+                        'Clear'
+                    ).ask();
+                    if (!confirmed) return;
+                    await this.plugin.usageLedger.clear();
+                    this.display();
+                })
+            );
     }
 
     private addGeneralSettings(): void {
@@ -276,15 +598,20 @@ export class FillerInnerSettingTab extends PluginSettingTab {
         const urls: Record<LLMProvider, string> = {
             [LLMProvider.OpenRouter]: 'https://openrouter.ai/account/api-keys',
             [LLMProvider.LMStudio]: 'https://lmstudio.example.com/account/api-keys',
+            [LLMProvider.Anthropic]: 'https://console.anthropic.com/settings/keys',
+            [LLMProvider.OpenAI]: 'https://platform.openai.com/api-keys',
+            [LLMProvider.Gemini]: 'https://aistudio.google.com/app/apikey',
+            [LLMProvider.Groq]: 'https://console.groq.com/keys',
+            [LLMProvider.Perplexity]: 'https://www.perplexity.ai/settings/api',
         };
         return urls[this.settings.llm.provider] || '';
     }
 
+    private parseLines(value: string): string[] {
+        return value.split('\n').map(line => line.trim()).filter(Boolean);
+    }
+
     private getProviderDisplayName(provider: LLMProvider): string {
-        const displayNames: Record<LLMProvider, string> = {
-            [LLMProvider.OpenRouter]: 'OpenRouter',
-            [LLMProvider.LMStudio]: 'LMStudio',
-        };
-        return displayNames[provider] || provider;
+        return PROVIDER_NAMES[provider as unknown as AIProvider] || provider;
     }
 }
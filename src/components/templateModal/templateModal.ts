@@ -1,13 +1,25 @@
 // src/components/templateModal/templateModal.ts
 
-import { App, Modal, Setting, Notice } from 'obsidian';
+import { App, DropdownComponent, Modal, Setting, Notice, TFile, TFolder, ToggleComponent, moment } from 'obsidian';
 import { TemplateDropdown } from './templateDropdown';
 import { PromptInput } from './promptInput';
 import { TemplateManager } from '../../services/templateManager';
 import { LLMService } from '../../services/ai/llmService';
 import { PromptOptimizer } from '../../services/ai/promptOptimizer';
 import { FileService } from '../../services/fileService';
-import { Template } from '../../types';
+import { UsageLedger } from '../../services/usageLedger';
+import { FrontmatterMerger } from '../../services/frontmatterMerger';
+import { ContextCollector } from '../../services/contextCollector';
+import { VaultSearchIndex } from '../../services/vaultSearchIndex';
+import { ModelCatalog } from '../../services/ai/modelCatalog';
+import { ConfirmModal } from '../confirmModal';
+import { VaultItemSuggestModal } from '../vaultItemSuggestModal';
+import { ReviewModal } from '../reviewModal';
+import { ContextNote, EditorTarget, OutputMode, ReviewDecision, StructureIssue, Template, TemplateConfig, TemplateField, TemplateSection } from '../../types';
+import { FillerInnerSettings } from '../../types/settings';
+import { AIModelUtils, AIProvider, FillOptions, GenerationOverrides, SectionFill } from '../../types/aiModels';
+import { splitTemplateSections } from '../../utils/templateSections';
+import { compareStructure } from '../../utils/templateStructure';
 
 /**
  * TemplateModal handles the UI and workflow for selecting and filling templates.
@@ -17,14 +29,51 @@ export class TemplateModal extends Modal {
     private dropdown: TemplateDropdown;
     private promptInput: PromptInput;
     private selectedTemplate: Template | null = null;
+    private fields: TemplateField[] = [];
+    private fieldValues: Record<string, string> = {};
+    private fieldsEl!: HTMLElement;
+    private templateSetting!: Setting;
+    private templateConfig: TemplateConfig = {};
+    // Provider and model picked while reviewing, used instead of the template's and global ones
+    private retryOverrides: GenerationOverrides = {};
+    // The last reviewed note, offered again when its regeneration fails
+    private previousDraft: { prepared: PreparedFill, content: string } | null = null;
+    private effectiveSettingsEl!: HTMLElement;
     private processingStatus: ProcessingStatus = ProcessingStatus.IDLE;
     private submitButton!: HTMLButtonElement;
+    private stopButton!: HTMLButtonElement;
+    private saveButton!: HTMLButtonElement;
+    private previewEl!: HTMLElement;
+    private abortController: AbortController | null = null;
+
+    // Inserting into an open note instead of creating one
+    private editorTarget: EditorTarget | null = null;
+    private outputMode: OutputMode = 'file';
+    private targetHeading: TemplateSection | null = null;
+
+    // Section-by-section filling
+    private fillBySection: boolean = false;
+    private fillBySectionToggle: ToggleComponent | null = null;
+    private sectionsEl!: HTMLElement;
+    private sectionRun: SectionRun | null = null;
+
+    // Vault notes attached as source material
+    private contextFiles: TFile[] = [];
+    private contextEl!: HTMLElement;
+    private useVaultSearch: boolean;
+    private sourcesEl!: HTMLElement;
 
     // Injected services
     private templateManager: TemplateManager;
     private llmService: LLMService;
     private promptOptimizer: PromptOptimizer;
     private fileService: FileService;
+    private usageLedger: UsageLedger;
+    private settings: FillerInnerSettings;
+    private frontmatterMerger: FrontmatterMerger;
+    private contextCollector: ContextCollector;
+    private vaultSearchIndex: VaultSearchIndex;
+    private modelCatalog: ModelCatalog;
 
     // Animation properties
     private intervalId: number | null = null;
@@ -35,13 +84,24 @@ export class TemplateModal extends Modal {
         templateManager: TemplateManager,
         llmService: LLMService,
         promptOptimizer: PromptOptimizer,
-        fileService: FileService
+        fileService: FileService,
+        usageLedger: UsageLedger,
+        settings: FillerInnerSettings,
+        vaultSearchIndex: VaultSearchIndex,
+        modelCatalog: ModelCatalog
     ) {
         super(app);
         this.templateManager = templateManager;
         this.llmService = llmService;
         this.promptOptimizer = promptOptimizer;
         this.fileService = fileService;
+        this.usageLedger = usageLedger;
+        this.settings = settings;
+        this.frontmatterMerger = new FrontmatterMerger(settings);
+        this.contextCollector = new ContextCollector(app);
+        this.vaultSearchIndex = vaultSearchIndex;
+        this.modelCatalog = modelCatalog;
+        this.useVaultSearch = settings.processing.vaultSearchResults > 0;
 
         // Add modal classes for styling
         this.modalEl.addClass('filler-inner-modal');
@@ -52,6 +112,16 @@ export class TemplateModal extends Modal {
         this.promptInput = new PromptInput(this.contentEl);
     }
 
+    /**
+     * Offers an open editor as the destination of the filled result
+     * @param target The editor and the note it shows
+     * @param preferEditor Whether to insert into the editor by default instead of creating a note
+     */
+    setEditorTarget(target: EditorTarget, preferEditor: boolean) {
+        this.editorTarget = target;
+        this.outputMode = preferEditor ? 'cursor' : 'file';
+    }
+
     onOpen() {
         const { contentEl } = this;
         contentEl.empty();
@@ -60,7 +130,7 @@ export class TemplateModal extends Modal {
         this.titleEl.setText('✨ Fill Template');
 
         // Template Selection
-        new Setting(contentEl)
+        this.templateSetting = new Setting(contentEl)
             .setName('Template')
             .setDesc('Choose a template to fill')
             .then(setting => {
@@ -68,6 +138,12 @@ export class TemplateModal extends Modal {
                 this.dropdown.mount(setting.controlEl);
             });
 
+        // Model and output settings the fill will use, including template overrides
+        this.effectiveSettingsEl = contentEl.createDiv({ cls: 'template-effective-settings' });
+
+        // One input per literal {{field}} of the selected template
+        this.fieldsEl = contentEl.createDiv({ cls: 'template-fields' });
+
         // Prompt Input
         new Setting(contentEl)
             .setName('Requirements')
@@ -77,6 +153,33 @@ export class TemplateModal extends Modal {
                 this.promptInput.mount(setting.controlEl);
             });
 
+        this.addContextSetting(contentEl);
+
+        if (this.editorTarget) {
+            this.addOutputSetting(contentEl, this.editorTarget);
+        }
+
+        // Long templates fill more reliably one heading at a time
+        new Setting(contentEl)
+            .setName('Fill section by section')
+            .setDesc('Fill each heading with its own request, with earlier sections as context')
+            .addToggle(toggle => {
+                this.fillBySectionToggle = toggle;
+                toggle
+                    .setValue(this.fillBySection)
+                    .onChange(value => {
+                        this.fillBySection = value;
+                    });
+            });
+
+        // Per-section progress of a section-by-section fill
+        this.sectionsEl = contentEl.createDiv({ cls: 'template-sections' });
+        this.sectionsEl.hide();
+
+        // Live preview of the note while it is generated
+        this.previewEl = contentEl.createDiv({ cls: 'generation-preview' });
+        this.previewEl.hide();
+
         // Modal Footer with buttons
         const footer = contentEl.createDiv('modal-footer');
         
@@ -87,6 +190,22 @@ export class TemplateModal extends Modal {
         });
         cancelBtn.addEventListener('click', () => this.close());
 
+        // Stop button, only visible while generating
+        this.stopButton = footer.createEl('button', {
+            text: 'Stop',
+            cls: 'stop-button'
+        });
+        this.stopButton.hide();
+        this.stopButton.addEventListener('click', () => this.abortController?.abort());
+
+        // Save button for section-by-section fills, shown once every section is filled
+        this.saveButton = footer.createEl('button', {
+            text: 'Save',
+            cls: 'save-button'
+        });
+        this.saveButton.hide();
+        this.saveButton.addEventListener('click', this.handleSave.bind(this));
+
         // Submit button with loading state and ripple effect
         this.submitButton = footer.createEl('button', {
             text: 'Generate',
@@ -105,6 +224,14 @@ export class TemplateModal extends Modal {
         // Handle template selection
         this.dropdown.onSelect((template: Template) => {
             this.selectedTemplate = template;
+            // A model picked while reviewing another template's note does not carry over
+            this.retryOverrides = {};
+            this.previousDraft = null;
+            this.templateSetting.setDesc(template.description || 'Choose a template to fill');
+            this.sectionRun = null;
+            this.renderSections();
+            this.loadTemplateConfig(template);
+            this.loadFields(template);
             this.updateSubmitButtonState();
             // Add ripple effect to the select element
             const selectEl = this.contentEl.querySelector('.template-select');
@@ -129,51 +256,339 @@ export class TemplateModal extends Modal {
             return;
         }
 
-        if (!this.promptInput.getValue().trim()) {
+        if (!this.promptInput.getValue().trim() && this.fields.length === 0) {
             new Notice('✍️ Please enter your requirements');
             return;
         }
 
+        const abortController = this.beginProcessing();
+        let regenerate = false;
+
         try {
-            this.processingStatus = ProcessingStatus.PROCESSING;
-            
-            // Update button state with loading animation
-            this.submitButton.empty();
-            const loadingContainer = this.submitButton.createSpan({cls: 'loading-container'});
-            loadingContainer.createSpan({text: 'Generating', cls: 'loading-text'});
-            const dotsContainer = loadingContainer.createSpan({cls: 'loading-dots'});
-            
-            // Animated loading dots
-            this.intervalId = window.setInterval(() => {
-                const currentDots = dotsContainer.textContent || '';
-                dotsContainer.textContent = currentDots.length >= 3 ? '' : currentDots + '.';
-            }, 500);
-            
-            this.submitButton.disabled = true;
-            this.addRippleEffect(this.submitButton);
-
-            const filledContent = await this.processTemplate();
-            await this.fileService.createFilledFile(this.selectedTemplate!, filledContent);
-
-            new Notice('✨ Template filled and saved successfully!');
+            if (this.fillBySection) {
+                await this.fillSections(abortController);
+                return;
+            }
+
+            this.sectionRun = null;
+            this.renderSections();
+
+            // The reviewed note, with the user's edits, that a regeneration replaces
+            const draft = this.previousDraft;
+            this.previousDraft = null;
+
+            let result: { prepared: PreparedFill, content: string } | null = null;
+            try {
+                result = await this.processTemplate(abortController.signal);
+            } catch (error) {
+                if (!draft) {
+                    throw error;
+                }
+                console.error('🚨 Regeneration failed:', error);
+            }
+
+            // The modal was closed mid-generation
+            if (this.abortController !== abortController) {
+                return;
+            }
+
+            let stopped = abortController.signal.aborted;
+            // Failed, stopped early, or declined over budget or for a broken structure
+            if (result === null || (stopped && !result.content)) {
+                if (!draft) {
+                    if (result !== null) {
+                        new Notice('⏹️ Generation stopped before any content was produced');
+                    }
+                    return;
+                }
+                new Notice('⚠️ Regeneration did not produce a note; showing your previous draft');
+                result = draft;
+                stopped = false;
+            }
+
+            // Nothing is written until the user accepts the note
+            this.setLoadingText('Reviewing');
+            const decision = await this.review(result.prepared, result.content, true);
+            if (this.abortController !== abortController) {
+                return;
+            }
+            if (decision.action === 'discard') {
+                new Notice('🗑️ Generated note discarded');
+                return;
+            }
+            if (decision.action === 'regenerate') {
+                this.previousDraft = { prepared: result.prepared, content: decision.content };
+                this.retryOverrides = decision.overrides;
+                this.renderEffectiveSettings();
+                regenerate = true;
+                return;
+            }
+
+            this.setLoadingText('Saving');
+            await this.saveNote(result.prepared, decision.content);
+
+            const destination = this.isInserting() ? 'inserted into the note' : 'saved';
+            new Notice(stopped
+                ? `⏹️ Generation stopped, partial template ${destination}`
+                : `✨ Template filled and ${destination} successfully!`);
             this.close();
         } catch (error) {
             console.error('🚨 Template processing failed:', error);
             new Notice('❌ Failed to generate the filled template. Check console for details.');
         } finally {
-            if (this.intervalId) {
-                window.clearInterval(this.intervalId);
-                this.intervalId = null;
+            this.endProcessing();
+        }
+
+        if (regenerate) {
+            await this.handleSubmit();
+        }
+    }
+
+    /**
+     * Shows a generated note rendered and editable, and waits for the user to accept, regenerate or discard it
+     * @param canRegenerate Whether the note can be regenerated as a whole, possibly with another model
+     * @returns The user's decision; accepted content includes their edits
+     */
+    private async review(prepared: PreparedFill, content: string, canRegenerate: boolean): Promise<ReviewDecision> {
+        const config = this.llmService.resolveConfig(prepared.fillOptions.overrides);
+        const retry = canRegenerate ? {
+            provider: config.provider as unknown as AIProvider,
+            model: config.model,
+            // Only the configured provider's live catalog is fetched; others use the curated list
+            listModels: async (choice: AIProvider) => choice === (this.settings.llm.provider as unknown as AIProvider)
+                ? await this.modelCatalog.getModels()
+                : AIModelUtils.getModelsByProvider(choice)
+        } : null;
+
+        const confirmText = this.isInserting() ? 'Accept and insert' : 'Accept and save';
+        return await new ReviewModal(this.app, content, this.editorTarget?.file?.path || '', confirmText, retry).ask();
+    }
+
+    /**
+     * Puts the modal in its generating state
+     * @returns The controller that stops this generation
+     */
+    private beginProcessing(): AbortController {
+        this.processingStatus = ProcessingStatus.PROCESSING;
+
+        // Update button state with loading animation
+        this.submitButton.empty();
+        const loadingContainer = this.submitButton.createSpan({cls: 'loading-container'});
+        loadingContainer.createSpan({text: 'Generating', cls: 'loading-text'});
+        const dotsContainer = loadingContainer.createSpan({cls: 'loading-dots'});
+
+        // Animated loading dots
+        this.intervalId = window.setInterval(() => {
+            const currentDots = dotsContainer.textContent || '';
+            dotsContainer.textContent = currentDots.length >= 3 ? '' : currentDots + '.';
+        }, 500);
+
+        this.submitButton.disabled = true;
+        this.saveButton.disabled = true;
+        this.addRippleEffect(this.submitButton);
+
+        const abortController = new AbortController();
+        this.abortController = abortController;
+        this.stopButton.show();
+        this.previewEl.empty();
+        this.previewEl.show();
+        return abortController;
+    }
+
+    /**
+     * Returns the modal to its idle state after a generation
+     */
+    private endProcessing() {
+        if (this.intervalId) {
+            window.clearInterval(this.intervalId);
+            this.intervalId = null;
+        }
+        this.processingStatus = ProcessingStatus.IDLE;
+        this.abortController = null;
+        this.stopButton.hide();
+        this.submitButton.empty();
+        this.submitButton.setText('Generate');
+        this.submitButton.disabled = false;
+        this.renderSections();
+    }
+
+    /**
+     * Fills every section of the selected template in order, stopping at the first failure
+     */
+    private async fillSections(abortController: AbortController) {
+        this.sectionRun = null;
+        this.renderSections();
+
+        const prepared = await this.prepareFill(true);
+
+        // The modal was closed meanwhile, or the user declined an over-budget fill
+        if (this.abortController !== abortController || prepared === null) {
+            return;
+        }
+
+        this.sectionRun = {
+            ...prepared,
+            sections: splitTemplateSections(prepared.templateContent),
+            states: []
+        };
+        this.sectionRun.states = this.sectionRun.sections.map(() => ({ status: 'pending' as const }));
+
+        for (let index = 0; index < this.sectionRun.sections.length; index++) {
+            if (abortController.signal.aborted || !(await this.fillSection(index, abortController))) {
+                break;
+            }
+        }
+
+        if (this.abortController === abortController && abortController.signal.aborted) {
+            new Notice('⏹️ Generation stopped; fill the remaining sections one at a time or generate again');
+        }
+    }
+
+    /**
+     * Fills one section, with the sections before it as context
+     * @returns Whether the section was filled
+     */
+    private async fillSection(index: number, abortController: AbortController): Promise<boolean> {
+        const run = this.sectionRun!;
+        const state = run.states[index];
+        state.status = 'generating';
+        this.renderSections();
+        this.previewEl.empty();
+
+        try {
+            const filledSections = run.states.slice(0, index).map(earlier => earlier.fill?.content || '');
+            const fill = await this.llmService.generateFilledSection(
+                run.sections,
+                index,
+                filledSections,
+                run.prompt,
+                { ...run.fillOptions, signal: abortController.signal }
+            );
+
+            // The modal was closed, or a new run started, while this section was generated
+            if (this.sectionRun !== run) {
+                return false;
+            }
+
+            // A section stopped before producing anything stays unfilled
+            if (abortController.signal.aborted && !fill.content) {
+                state.status = state.fill ? 'done' : 'pending';
+                return false;
+            }
+
+            state.fill = fill;
+            state.status = 'done';
+            return true;
+        } catch (error) {
+            console.error(`🚨 Failed to fill section ${index + 1}:`, error);
+            state.status = 'failed';
+            new Notice(`❌ Failed to fill "${this.getSectionLabel(run.sections[index])}". Try regenerating it.`);
+            return false;
+        } finally {
+            this.renderSections();
+        }
+    }
+
+    /**
+     * Fills a single section again, keeping every other section as it is
+     */
+    private async regenerateSection(index: number) {
+        if (this.processingStatus === ProcessingStatus.PROCESSING || !this.sectionRun) {
+            return;
+        }
+
+        const abortController = this.beginProcessing();
+        try {
+            await this.fillSection(index, abortController);
+        } finally {
+            this.endProcessing();
+        }
+    }
+
+    /**
+     * Saves the note assembled from the filled sections
+     */
+    private async handleSave() {
+        const run = this.sectionRun;
+        if (!run || !this.selectedTemplate || !run.states.every(state => state.fill)) {
+            return;
+        }
+
+        try {
+            const content = this.llmService.assembleSections(run.states.map(state => state.fill!));
+
+            // Sections are repaired by regenerating them, so differences are only reported
+            if (this.settings.processing.checkStructure) {
+                const issues = compareStructure(run.templateContent, content);
+                if (issues.length > 0 && !(await this.confirmStructure(issues))) {
+                    return;
+                }
+            }
+
+            this.saveButton.disabled = true;
+            const note = await this.finalizeNote(run, content);
+
+            // Sections are regenerated one by one from the list, so the review only accepts or discards
+            const decision = await this.review(run, note, false);
+            if (decision.action !== 'accept') {
+                return;
             }
-            this.processingStatus = ProcessingStatus.IDLE;
-            this.submitButton.empty();
-            this.submitButton.setText('Generate');
-            this.submitButton.disabled = false;
+            await this.saveNote(run, decision.content);
+            new Notice(`✨ Template filled and ${this.isInserting() ? 'inserted into the note' : 'saved'} successfully!`);
+            this.close();
+        } catch (error) {
+            console.error('🚨 Failed to save the filled template:', error);
+            new Notice('❌ Failed to save the filled template. Check console for details.');
+        } finally {
+            this.renderSections();
+        }
+    }
+
+    /**
+     * Lists the sections with their progress; each filled section can be regenerated,
+     * and the next unfilled one can be filled on its own
+     */
+    private renderSections() {
+        const run = this.sectionRun;
+        this.sectionsEl.empty();
+        this.sectionsEl.toggle(!!run);
+        this.saveButton.toggle(!!run);
+        if (!run) {
+            return;
         }
+
+        const idle = this.processingStatus !== ProcessingStatus.PROCESSING;
+        const icons: Record<SectionStatus, string> = { pending: '⏳', generating: '✍️', done: '✅', failed: '❌' };
+
+        run.sections.forEach((section, index) => {
+            const state = run.states[index];
+            const row = this.sectionsEl.createDiv({ cls: `template-section-row is-${state.status}` });
+            row.createSpan({ text: icons[state.status], cls: 'template-section-status' });
+            row.createSpan({ text: this.getSectionLabel(section), cls: 'template-section-heading' });
+
+            // Earlier sections are the context, so only a section whose predecessors are filled can run
+            const ready = run.states.slice(0, index).every(earlier => earlier.fill);
+            const button = row.createEl('button', {
+                text: state.fill ? 'Regenerate' : 'Fill',
+                cls: 'template-section-button'
+            });
+            button.disabled = !idle || !ready;
+            button.addEventListener('click', () => this.regenerateSection(index));
+        });
+
+        const filled = run.states.filter(state => state.fill).length;
+        this.saveButton.setText(`Save (${filled}/${run.sections.length})`);
+        this.saveButton.disabled = !idle || filled < run.sections.length;
+    }
+
+    private getSectionLabel(section: TemplateSection): string {
+        return section.level > 0 ? `${'#'.repeat(section.level)} ${section.heading}` : 'Before first heading';
     }
 
     private updateSubmitButtonState() {
-        const isReady = !!this.selectedTemplate && !!this.promptInput.getValue().trim();
+        // Templates with fields can be filled from the field values alone
+        const hasInput = !!this.promptInput.getValue().trim() || this.fields.length > 0;
+        const isReady = !!this.selectedTemplate && hasInput;
         this.submitButton.toggleClass('ready', isReady);
         this.submitButton.disabled = !isReady;
     }
@@ -189,6 +604,340 @@ export class TemplateModal extends Modal {
         setTimeout(() => ripple.remove(), 600);
     }
 
+    private async loadFields(template: Template) {
+        this.fieldsEl.empty();
+        this.fields = [];
+        this.fieldValues = {};
+
+        try {
+            this.fields = await this.templateManager.getTemplateFields(template.path);
+        } catch (error) {
+            console.error('🧩 Failed to read template fields:', error);
+            return;
+        }
+
+        // Ignore the result if another template was selected meanwhile
+        if (this.selectedTemplate !== template) {
+            return;
+        }
+
+        this.fields
+            .filter(field => field.type === 'literal')
+            .forEach(field => {
+                // Dates default to today; everything else starts empty
+                const initialValue = field.name.toLowerCase() === 'date' ? moment().format('YYYY-MM-DD') : '';
+                this.fieldValues[field.name] = initialValue;
+
+                new Setting(this.fieldsEl)
+                    .setName(field.name)
+                    .setDesc(`Inserted exactly as ${field.placeholder}`)
+                    .addText(text => text
+                        .setValue(initialValue)
+                        .onChange(value => {
+                            this.fieldValues[field.name] = value;
+                        })
+                    )
+                    .then(setting => setting.settingEl.addClass('template-field-setting'));
+            });
+
+        const aiFields = this.fields.filter(field => field.type === 'ai');
+        if (aiFields.length > 0) {
+            this.fieldsEl.createDiv({
+                text: `🤖 ${aiFields.length} AI field${aiFields.length === 1 ? '' : 's'} will be written by the model`,
+                cls: 'template-fields-note'
+            });
+        }
+
+        this.updateSubmitButtonState();
+    }
+
+    private async loadTemplateConfig(template: Template) {
+        this.templateConfig = {};
+        this.effectiveSettingsEl.empty();
+
+        try {
+            this.templateConfig = await this.templateManager.getTemplateConfig(template.path);
+        } catch (error) {
+            console.error('⚙️ Failed to read template settings:', error);
+        }
+
+        // Ignore the result if another template was selected meanwhile
+        if (this.selectedTemplate !== template) {
+            return;
+        }
+
+        this.renderEffectiveSettings();
+
+        // A choice made for the previous template does not carry over
+        this.fillBySection = this.templateConfig.fillBySection ?? false;
+        this.fillBySectionToggle?.setValue(this.fillBySection);
+    }
+
+    /**
+     * Shows the provider, model and output the fill will use, marking what the template overrides
+     */
+    private renderEffectiveSettings() {
+        const config: TemplateConfig = { ...this.templateConfig, ...this.retryOverrides };
+        const effective = this.llmService.resolveConfig(config);
+        const outputFolder = this.fileService.getOutputPath(config.outputFolder) || 'vault root';
+        const inserting = this.isInserting();
+
+        const items: Array<[string, string, boolean]> = [
+            ['Provider', effective.provider, config.provider !== undefined],
+            ['Model', effective.model || 'default', config.provider !== undefined || config.model !== undefined],
+            ['Temperature', String(effective.temperature), config.temperature !== undefined],
+            ['Max tokens', String(effective.maxTokens), config.maxTokens !== undefined],
+            ['System prompt', config.systemPrompt ? 'global + template' : 'global', config.systemPrompt !== undefined],
+            ...(inserting ? [] : [
+                ['Output folder', outputFolder, config.outputFolder !== undefined],
+                ['File name', this.fileService.getFilenamePattern(config.filenamePattern), config.filenamePattern !== undefined]
+            ] as Array<[string, string, boolean]>)
+        ];
+
+        this.effectiveSettingsEl.empty();
+        items.forEach(([label, value, overridden]) => {
+            const item = this.effectiveSettingsEl.createDiv({ cls: 'template-effective-setting' });
+            item.toggleClass('is-overridden', overridden);
+            item.createSpan({ text: `${label}: `, cls: 'template-effective-label' });
+            item.createSpan({ text: value });
+            if (overridden) {
+                item.setAttr('title', 'Set by the template, or chosen while reviewing');
+            }
+        });
+    }
+
+    /**
+     * Lets the user choose between a new note, the editor's cursor or selection,
+     * and the end of one of the note's heading sections
+     */
+    private addOutputSetting(containerEl: HTMLElement, target: EditorTarget) {
+        const headings = splitTemplateSections(target.editor.getValue()).filter(section => section.level > 0);
+        const noteName = target.file?.basename || 'the active note';
+        let headingDropdown: DropdownComponent | null = null;
+
+        const setting = new Setting(containerEl)
+            .setName('Output')
+            .setDesc(`Create a new note, or insert into ${noteName} as a single undoable change`)
+            .addDropdown(dropdown => {
+                dropdown.addOption('file', 'New note');
+                dropdown.addOption('cursor', target.editor.somethingSelected() ? 'Replace selection' : 'Insert at cursor');
+                if (headings.length > 0) {
+                    dropdown.addOption('heading', 'Append under heading');
+                }
+                dropdown
+                    .setValue(this.outputMode)
+                    .onChange(value => {
+                        this.outputMode = value as OutputMode;
+                        headingDropdown?.selectEl.toggle(this.outputMode === 'heading');
+                        if (this.selectedTemplate) {
+                            this.renderEffectiveSettings();
+                        }
+                    });
+            });
+
+        if (headings.length > 0) {
+            setting.addDropdown(dropdown => {
+                headingDropdown = dropdown;
+                headings.forEach((heading, index) => {
+                    dropdown.addOption(String(index), `${'#'.repeat(heading.level)} ${heading.heading}`);
+                });
+                this.targetHeading = headings[0];
+                dropdown.onChange(value => {
+                    this.targetHeading = headings[Number(value)];
+                });
+                dropdown.selectEl.toggle(this.outputMode === 'heading');
+            });
+        }
+    }
+
+    /**
+     * Lets the user attach notes as source material: the active note, picked notes,
+     * the active note's links or backlinks, and the notes of a folder
+     */
+    private addContextSetting(containerEl: HTMLElement) {
+        const activeFile = this.getActiveNote();
+
+        const setting = new Setting(containerEl)
+            .setName('Context')
+            .setDesc('Notes the model should draw on while filling');
+
+        if (activeFile) {
+            setting
+                .addButton(button => button
+                    .setButtonText('Current note')
+                    .onClick(() => this.attachContext([activeFile])))
+                .addButton(button => button
+                    .setButtonText('Links')
+                    .setTooltip(`Notes ${activeFile.basename} links to`)
+                    .onClick(() => this.attachContext(this.contextCollector.getLinkedNotes(activeFile))))
+                .addButton(button => button
+                    .setButtonText('Backlinks')
+                    .setTooltip(`Notes linking to ${activeFile.basename}`)
+                    .onClick(() => this.attachContext(this.contextCollector.getBacklinks(activeFile))));
+        }
+
+        setting
+            .addButton(button => button
+                .setButtonText('Add note…')
+                .onClick(() => {
+                    new VaultItemSuggestModal(this.app, this.app.vault.getMarkdownFiles(), 'Choose a note to attach', file => {
+                        this.attachContext([file]);
+                    }).open();
+                }))
+            .addButton(button => button
+                .setButtonText('Folder…')
+                .onClick(() => {
+                    const folders = this.app.vault.getAllLoadedFiles()
+                        .filter((item): item is TFolder => item instanceof TFolder);
+                    new VaultItemSuggestModal(this.app, folders, 'Choose a folder to attach', folder => {
+                        this.attachContext(this.contextCollector.getFolderNotes(folder));
+                    }).open();
+                }));
+
+        this.contextEl = containerEl.createDiv({ cls: 'template-context' });
+        this.contextEl.hide();
+
+        const results = this.settings.processing.vaultSearchResults;
+        if (results > 0) {
+            new Setting(containerEl)
+                .setName('Search vault')
+                .setDesc(`Add the ${results} passages of your notes that best match the requirements and template`)
+                .addToggle(toggle => toggle
+                    .setValue(this.useVaultSearch)
+                    .onChange(value => {
+                        this.useVaultSearch = value;
+                    }));
+        }
+
+        // Notes the last fill drew on, attached or found by the search
+        this.sourcesEl = containerEl.createDiv({ cls: 'template-sources' });
+        this.sourcesEl.hide();
+    }
+
+    /**
+     * Attached notes followed by the vault search results, cut down to the context budget
+     * @param query Text to search the vault for
+     */
+    private async gatherContext(query: string): Promise<ContextNote[]> {
+        const attached = await this.contextCollector.read(this.contextFiles);
+
+        let passages: ContextNote[] = [];
+        if (this.useVaultSearch && this.settings.processing.vaultSearchResults > 0) {
+            const attachedPaths = new Set(this.contextFiles.map(file => file.path));
+            const results = await this.vaultSearchIndex.search(
+                query,
+                this.settings.processing.vaultSearchResults,
+                // Templates would only teach the model their own placeholders
+                passage => !attachedPaths.has(passage.path) && !this.templateManager.hasTemplate(passage.path)
+            );
+            passages = results.map(({ path, heading, content }) => ({ path, heading, content }));
+        }
+
+        const context = this.contextCollector.fitToBudget([...attached, ...passages], this.settings.processing.contextTokenBudget);
+        if (context.truncated.length + context.omitted.length > 0) {
+            new Notice(`⚠️ Context is over budget: ${context.truncated.length} note(s) cut short, ` +
+                `${context.omitted.length} left out.`);
+        }
+
+        this.renderSources(context.notes);
+        return context.notes;
+    }
+
+    /**
+     * Lists the notes given to the model, each linking to the note
+     */
+    private renderSources(notes: ContextNote[]) {
+        this.sourcesEl.empty();
+        this.sourcesEl.toggle(notes.length > 0);
+        if (notes.length === 0) {
+            return;
+        }
+
+        this.sourcesEl.createSpan({ text: 'Notes used: ', cls: 'template-effective-label' });
+        const paths = Array.from(new Set(notes.map(note => note.path)));
+        paths.forEach((path, index) => {
+            const link = this.sourcesEl.createEl('a', {
+                text: path.replace(/\.md$/, ''),
+                cls: 'internal-link',
+                attr: { 'data-href': path, href: path }
+            });
+            link.addEventListener('click', event => {
+                event.preventDefault();
+                this.app.workspace.openLinkText(path, '', true);
+            });
+            if (index < paths.length - 1) {
+                this.sourcesEl.appendText(', ');
+            }
+        });
+    }
+
+    /**
+     * The note the modal was opened from, or the active one
+     */
+    private getActiveNote(): TFile | null {
+        const file = this.editorTarget?.file || this.app.workspace.getActiveFile();
+        return file && file.extension === 'md' ? file : null;
+    }
+
+    private attachContext(files: TFile[]) {
+        const added = files.filter(file => !this.contextFiles.includes(file));
+        if (added.length === 0) {
+            new Notice(files.length === 0 ? 'No notes found to attach.' : 'These notes are already attached.');
+            return;
+        }
+        this.contextFiles.push(...added);
+        this.refreshContext();
+    }
+
+    private refreshContext() {
+        this.renderContext().catch(error => {
+            console.error('📎 Failed to read the attached notes:', error);
+            new Notice('❌ Failed to read the attached notes. Check console for details.');
+        });
+    }
+
+    /**
+     * Lists the attached notes with their estimated tokens, warning when they exceed the context budget
+     */
+    private async renderContext() {
+        const files = [...this.contextFiles];
+        const tokens = await Promise.all(files.map(file => this.contextCollector.countTokens(file)));
+        // A newer render started while this one was reading
+        if (files.length !== this.contextFiles.length || files.some((file, i) => file !== this.contextFiles[i])) {
+            return;
+        }
+
+        this.contextEl.empty();
+        this.contextEl.toggle(files.length > 0);
+
+        const list = this.contextEl.createEl('ul', { cls: 'template-context-list' });
+        files.forEach((file, index) => {
+            const item = list.createEl('li');
+            item.createSpan({ text: file.path });
+            item.createSpan({ text: ` · ~${tokens[index]} tokens`, cls: 'template-context-tokens' });
+            const remove = item.createEl('button', { text: '✕', cls: 'template-context-remove' });
+            remove.setAttr('aria-label', 'Remove');
+            remove.addEventListener('click', () => {
+                this.contextFiles.splice(this.contextFiles.indexOf(file), 1);
+                this.refreshContext();
+            });
+        });
+
+        const total = tokens.reduce((sum, count) => sum + count, 0);
+        const budget = this.settings.processing.contextTokenBudget;
+        const summary = this.contextEl.createDiv({ cls: 'template-context-summary' });
+        summary.setText(`~${total} tokens of context` + (budget > 0 ? ` (budget ${budget})` : ''));
+        if (budget > 0 && total > budget) {
+            summary.addClass('is-over-budget');
+            summary.setText(`⚠️ ~${total} tokens of context exceeds the budget of ${budget}. ` +
+                'Notes at the end of the list will be cut short or left out.');
+        }
+    }
+
+    private isInserting(): boolean {
+        return this.outputMode !== 'file' && this.editorTarget !== null;
+    }
+
     private async loadTemplates() {
         try {
             const templates = await this.templateManager.getTemplates();
@@ -199,21 +948,191 @@ export class TemplateModal extends Modal {
         }
     }
 
-    private async processTemplate(): Promise<string> {
+    /**
+     * Loads, optimizes and fills the selected template, then checks the result's structure
+     * @returns The filled note and what it was filled with, or null when the user declined
+     * to go over budget or to save a note that lost the template's structure
+     */
+    private async processTemplate(signal: AbortSignal): Promise<{ prepared: PreparedFill, content: string } | null> {
+        const prepared = await this.prepareFill(false);
+        if (!prepared) {
+            return null;
+        }
+
+        const fillOptions: FillOptions = { ...prepared.fillOptions, signal: signal };
+        const filledContent = await this.llmService.generateFilledTemplate(prepared.templateContent, prepared.prompt, fillOptions);
+
+        // A stopped note is incomplete by design
+        if (!this.settings.processing.checkStructure || signal.aborted) {
+            return { prepared, content: await this.finalizeNote(prepared, filledContent) };
+        }
+
+        this.setLoadingText('Checking structure');
+        const { content, issues } = await this.llmService.enforceStructure(
+            prepared.templateContent,
+            filledContent,
+            fillOptions,
+            this.settings.processing.structureRepairAttempts
+        );
+
+        if (issues.length > 0 && !signal.aborted && !(await this.confirmStructure(issues))) {
+            return null;
+        }
+        return { prepared, content: await this.finalizeNote(prepared, content) };
+    }
+
+    /**
+     * Saves a finished note under the template's or the global file name pattern,
+     * asking the model for a title when the pattern uses one
+     */
+    private async saveNote(prepared: PreparedFill, note: string) {
+        if (this.isInserting()) {
+            const heading = this.outputMode === 'heading' ? this.targetHeading || undefined : undefined;
+            this.fileService.insertIntoEditor(this.editorTarget!.editor, note, heading);
+            return;
+        }
+
+        const pattern = this.fileService.getFilenamePattern(this.templateConfig.filenamePattern);
+        const title = this.fileService.usesTitle(pattern)
+            ? await this.llmService.suggestTitle(note, prepared.fillOptions)
+            : undefined;
+
+        await this.fileService.createFilledFile(prepared.template, note, {
+            outputFolder: this.templateConfig.outputFolder,
+            filenamePattern: this.templateConfig.filenamePattern,
+            fieldValues: prepared.fillOptions.fieldValues,
+            title: title
+        });
+    }
+
+    /**
+     * Merges the template's and the generated frontmatter and records the note's provenance
+     */
+    private async finalizeNote(prepared: PreparedFill, content: string): Promise<string> {
+        const config = this.llmService.resolveConfig(prepared.fillOptions.overrides);
+        return await this.frontmatterMerger.merge(
+            prepared.templateContent,
+            content,
+            prepared.fillOptions.fieldValues || {},
+            {
+                template: prepared.template,
+                provider: config.provider,
+                model: config.model,
+                prompt: prepared.prompt
+            }
+        );
+    }
+
+    /**
+     * Warns that a filled note no longer matches the template's structure
+     * @returns Whether to save it anyway
+     */
+    private async confirmStructure(issues: StructureIssue[]): Promise<boolean> {
+        return await new ConfirmModal(
+            this.app,
+            '🧱 Structure check',
+            "The filled note doesn't match the template's structure:",
+            'Save anyway',
+            issues.map(issue => issue.message)
+        ).ask();
+    }
+
+    private setLoadingText(text: string) {
+        const loadingText = this.submitButton.querySelector('.loading-text');
+        if (loadingText) {
+            loadingText.textContent = text;
+        }
+    }
+
+    /**
+     * Loads the selected template and its settings, checks the budget and optimizes the prompt
+     * @param bySection Whether the fill runs section by section, which changes its estimated cost
+     * @returns Everything needed to generate, or null when the user declined to go over budget
+     */
+    private async prepareFill(bySection: boolean): Promise<PreparedFill | null> {
         if (!this.selectedTemplate) {
             throw new Error('No template selected.');
         }
 
         const userPrompt = this.promptInput.getValue();
         const templateContent = await this.templateManager.loadTemplate(this.selectedTemplate.path);
+        const templateConfig = await this.templateManager.getTemplateConfig(this.selectedTemplate.path);
+        // Saving uses the same output settings the fill was generated with
+        this.templateConfig = templateConfig;
+
+        const fieldValues = this.getFilledFieldValues();
+        const context = await this.gatherContext([userPrompt, ...Object.values(fieldValues), templateContent].join('\n'));
+
+        const fillOptions: FillOptions = {
+            template: this.selectedTemplate.name,
+            systemPrompt: templateConfig.systemPrompt,
+            overrides: { ...templateConfig, ...this.retryOverrides },
+            fieldValues,
+            context,
+            onChunk: (chunk: string) => this.appendToPreview(chunk)
+        };
+
+        const estimate = bySection
+            ? this.llmService.estimateSectionFill(splitTemplateSections(templateContent), userPrompt, fillOptions)
+            : this.llmService.estimateFill(templateContent, userPrompt, fillOptions);
+        if (!(await this.confirmWithinBudget(estimate.cost))) {
+            return null;
+        }
+
+        // Nothing to optimize when the template is filled from its fields alone
+        let finalPrompt = userPrompt;
+        if (userPrompt.trim()) {
+            const optimizedPrompt = await this.promptOptimizer.optimize(userPrompt, templateContent);
+            finalPrompt = this.promptOptimizer.combine(templateContent, optimizedPrompt);
+        }
+
+        return { template: this.selectedTemplate, templateContent, prompt: finalPrompt, fillOptions };
+    }
+
+    /**
+     * Field values the user entered; empty fields keep their placeholder
+     */
+    private getFilledFieldValues(): Record<string, string> {
+        const values: Record<string, string> = {};
+        Object.entries(this.fieldValues).forEach(([name, value]) => {
+            if (value.trim()) {
+                values[name] = value;
+            }
+        });
+        return values;
+    }
+
+    /**
+     * Warns when the fill is expected to take this month's spending over the budget
+     * @returns Whether to go ahead with the fill
+     */
+    private async confirmWithinBudget(estimatedCost: number): Promise<boolean> {
+        const check = this.usageLedger.checkBudget(estimatedCost);
+
+        if (!check.exceeded) {
+            return true;
+        }
 
-        const optimizedPrompt = await this.promptOptimizer.optimize(userPrompt, templateContent);
-        const finalPrompt = this.promptOptimizer.combine(templateContent, optimizedPrompt);
+        return await new ConfirmModal(
+            this.app,
+            '💸 Monthly budget',
+            `This fill is estimated at $${estimatedCost.toFixed(4)}, which would bring this month's spending to ` +
+            `$${check.projected.toFixed(2)} of your $${check.budget.toFixed(2)} budget. Generate anyway?`,
+            'Generate anyway'
+        ).ask();
+    }
 
-        return await this.llmService.generateFilledTemplate(templateContent, finalPrompt);
+    private appendToPreview(chunk: string) {
+        this.previewEl.appendText(chunk);
+        // Keep the newest text in view
+        this.previewEl.scrollTop = this.previewEl.scrollHeight;
     }
 
     onClose() {
+        // Closing the modal abandons any generation in progress
+        this.abortController?.abort();
+        this.abortController = null;
+        this.sectionRun = null;
         if (this.intervalId !== null) {
             window.clearInterval(this.intervalId);
             this.intervalId = null;
@@ -227,6 +1146,26 @@ export class TemplateModal extends Modal {
     }
 }
 
+/**
+ * A loaded template, its fill options and the prompt to fill it with
+ */
+interface PreparedFill {
+    template: Template;
+    templateContent: string;
+    prompt: string;
+    fillOptions: FillOptions;
+}
+
+type SectionStatus = 'pending' | 'generating' | 'done' | 'failed';
+
+/**
+ * A section-by-section fill in progress; states line up with sections
+ */
+interface SectionRun extends PreparedFill {
+    sections: TemplateSection[];
+    states: Array<{ status: SectionStatus; fill?: SectionFill }>;
+}
+
 /**
  * Enum to track processing status
  */
@@ -0,0 +1,98 @@
+// src/components/usageView.ts
+
+/**
+ * File: src/components/usageView.ts
+ * Workspace view showing the token usage and cost ledger
+ */
+
+import { ItemView, WorkspaceLeaf } from 'obsidian';
+import { UsageLedger } from '../services/usageLedger';
+import { UsageGrouping, UsageTotals } from '../types/usage';
+
+export const USAGE_VIEW_TYPE = 'filler-inner-usage';
+
+export class UsageView extends ItemView {
+    private usageLedger: UsageLedger;
+    private unsubscribe: (() => void) | null = null;
+
+    constructor(leaf: WorkspaceLeaf, usageLedger: UsageLedger) {
+        super(leaf);
+        this.usageLedger = usageLedger;
+    }
+
+    getViewType(): string {
+        return USAGE_VIEW_TYPE;
+    }
+
+    getDisplayText(): string {
+        return 'Filler Inner usage';
+    }
+
+    getIcon(): string {
+        return 'bar-chart-2';
+    }
+
+    async onOpen() {
+        this.unsubscribe = this.usageLedger.onChange(() => this.render());
+        this.render();
+    }
+
+    async onClose() {
+        this.unsubscribe?.();
+        this.unsubscribe = null;
+    }
+
+    private render() {
+        const container = this.contentEl;
+        container.empty();
+        container.addClass('filler-inner-usage-view');
+
+        container.createEl('h3', { text: 'Usage' });
+        this.renderBudget(container);
+
+        if (this.usageLedger.getRecords().length === 0) {
+            container.createEl('p', { text: 'No generations recorded yet.', cls: 'usage-empty' });
+            return;
+        }
+
+        this.renderTable(container, 'Per day', 'Day', 'day');
+        this.renderTable(container, 'Per template', 'Template', 'template');
+        this.renderTable(container, 'Per model', 'Model', 'model');
+    }
+
+    private renderBudget(container: HTMLElement) {
+        const check = this.usageLedger.checkBudget(0);
+        const summary = container.createDiv({ cls: 'usage-budget' });
+        summary.createSpan({ text: `This month: ${formatCost(check.spent)}` });
+
+        if (check.budget > 0) {
+            summary.createSpan({ text: ` of ${formatCost(check.budget)} budget` });
+            const meter = summary.createEl('progress', { cls: 'usage-budget-meter' });
+            meter.max = check.budget;
+            meter.value = Math.min(check.spent, check.budget);
+            summary.toggleClass('over-budget', check.spent > check.budget);
+        }
+    }
+
+    private renderTable(container: HTMLElement, title: string, label: string, grouping: UsageGrouping) {
+        container.createEl('h4', { text: title });
+        const table = container.createEl('table', { cls: 'usage-table' });
+
+        const header = table.createEl('thead').createEl('tr');
+        [label, 'Calls', 'Input', 'Output', 'Cost'].forEach(text => header.createEl('th', { text }));
+
+        const body = table.createEl('tbody');
+        this.usageLedger.getTotals(grouping).forEach((totals: UsageTotals, key: string) => {
+            const row = body.createEl('tr');
+            row.createEl('td', { text: key });
+            row.createEl('td', { text: String(totals.calls) });
+            row.createEl('td', { text: totals.inputTokens.toLocaleString() });
+            row.createEl('td', { text: totals.outputTokens.toLocaleString() });
+            row.createEl('td', { text: formatCost(totals.cost) });
+        });
+    }
+}
+
+function formatCost(cost: number): string {
+    return `$${cost.toFixed(cost > 0 && cost < 0.01 ? 4 : 2)}`;
+}
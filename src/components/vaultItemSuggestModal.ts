@@ -0,0 +1,32 @@
+// src/components/vaultItemSuggestModal.ts
+
+/**
+ * File: src/components/vaultItemSuggestModal.ts
+ * Searchable picker for notes or folders of the vault
+ */
+
+import { App, FuzzySuggestModal, TAbstractFile } from 'obsidian';
+
+export class VaultItemSuggestModal<T extends TAbstractFile> extends FuzzySuggestModal<T> {
+    private items: T[];
+    private onChoose: (item: T) => void;
+
+    constructor(app: App, items: T[], placeholder: string, onChoose: (item: T) => void) {
+        super(app);
+        this.items = items;
+        this.onChoose = onChoose;
+        this.setPlaceholder(placeholder);
+    }
+
+    getItems(): T[] {
+        return this.items;
+    }
+
+    getItemText(item: T): string {
+        return item.path;
+    }
+
+    onChooseItem(item: T): void {
+        this.onChoose(item);
+    }
+}
@@ -0,0 +1,134 @@
+import { BaseAdapter } from './base';
+import { AIMessage, AIModel, AIResponse, AIResponseOptions, AIProvider, AIModelMap } from '@/types/aiModels';
+import { requestUrl, RequestUrlOptions, RequestUrlResponse } from 'obsidian';
+
+export class AnthropicAdapter extends BaseAdapter {
+    private apiKey: string = '';
+    private apiUrl: string = 'https://api.anthropic.com/v1/messages';
+    private apiVersion: string = '2023-06-01';
+
+    configure(config: Record<string, any>): void {
+        this.apiKey = config.apiKey || '';
+        this.apiUrl = config.apiUrl || this.apiUrl;
+    }
+
+    async generateResponse(messages: AIMessage[], options?: AIResponseOptions): Promise<AIResponse> {
+        if (!this.apiKey) {
+            throw new Error('Anthropic API key is not configured.');
+        }
+
+        const temperature = options?.temperature ?? 0.7;
+        const maxTokens = options?.maxTokens ?? 1000;
+        const model = options?.model || AIModelMap[AIProvider.Anthropic][0].apiName;
+
+        // The Messages API takes system instructions as a top-level field, not as a message
+        const system = messages
+            .filter(message => message.role === 'system')
+            .map(message => message.content)
+            .join('\n\n');
+        const conversation = messages.filter(message => message.role !== 'system');
+
+        const requestOptions: RequestUrlOptions = {
+            url: this.apiUrl,
+            method: 'POST',
+            headers: {
+                'x-api-key': this.apiKey,
+                'anthropic-version': this.apiVersion,
+                'Content-Type': 'application/json'
+            },
+            body: JSON.stringify({
+                model: model,
+                ...(system ? { system: system } : {}),
+                messages: conversation,
+                temperature: temperature,
+                max_tokens: maxTokens
+            })
+        };
+
+        try {
+            const response: RequestUrlResponse = await requestUrl(requestOptions);
+
+            if (response.status !== 200) {
+                throw new Error(`Anthropic API Error: ${response.status}`);
+            }
+
+            const responseData = response.json;
+
+            if (!responseData.content || responseData.content.length === 0) {
+                throw new Error('No content found in Anthropic response.');
+            }
+
+            // The Messages API returns a list of content blocks; only text blocks carry output
+            const content = responseData.content
+                .filter((block: any) => block.type === 'text')
+                .map((block: any) => block.text)
+                .join('');
+
+            const input = responseData.usage?.input_tokens || 0;
+            const output = responseData.usage?.output_tokens || 0;
+
+            return {
+                success: true,
+                data: content,
+                tokens: {
+                    input: input,
+                    output: output,
+                    total: input + output
+                }
+            };
+        } catch (error: any) {
+            console.error('Anthropic Adapter Error:', error);
+            return {
+                success: false,
+                error: error.message || 'Unknown error occurred.',
+                tokens: {
+                    input: 0,
+                    output: 0,
+                    total: 0
+                }
+            };
+        }
+    }
+
+    async testConnection(): Promise<boolean> {
+        try {
+            const testMessages: AIMessage[] = [{ role: 'user', content: 'Hello, this is a test prompt.' }];
+            const response = await this.generateResponse(testMessages, { maxTokens: 10 });
+            return response.success && !!response.data;
+        } catch (error) {
+            console.error('Anthropic Adapter Test Connection Error:', error);
+            return false;
+        }
+    }
+
+    getProviderType(): string {
+        return AIProvider.Anthropic;
+    }
+
+    public getAvailableModels(): string[] {
+        const models = AIModelMap[AIProvider.Anthropic];
+        return models.map(model => model.apiName);
+    }
+
+    async fetchModels(): Promise<AIModel[]> {
+        const response: RequestUrlResponse = await requestUrl({
+            url: this.apiUrl.replace(/\/messages\/?$/, '/models?limit=1000'),
+            method: 'GET',
+            headers: {
+                'x-api-key': this.apiKey,
+                'anthropic-version': this.apiVersion
+            }
+        });
+
+        if (response.status !== 200) {
+            throw new Error(`Anthropic API Error: ${response.status}`);
+        }
+
+        return (response.json?.data || []).map((model: any) => ({
+            apiName: String(model.id),
+            displayName: model.display_name || String(model.id),
+            provider: AIProvider.Anthropic,
+            maxTokens: 0
+        }));
+    }
+}
@@ -6,7 +6,7 @@
  * Defines the contract for all LLM service adapters
  */
 
-import { AIResponse, AIResponseOptions } from '../../../types/aiModels';
+import { AIMessage, AIModel, AIModelUtils, AIProvider, AIResponse, AIResponseOptions } from '../../../types/aiModels';
 
 export abstract class BaseAdapter {
     /**
@@ -16,12 +16,34 @@ export abstract class BaseAdapter {
     abstract configure(config: Record<string, any>): void;
 
     /**
-     * Generate a response from the AI model based on the prompt
-     * @param prompt The user-provided prompt
+     * Generate a response from the AI model based on a conversation
+     * @param messages The system, user and assistant messages to send
      * @param options Additional options for the AI response
      * @returns A promise that resolves to the AI response
      */
-    abstract generateResponse(prompt: string, options?: AIResponseOptions): Promise<AIResponse>;
+    abstract generateResponse(messages: AIMessage[], options?: AIResponseOptions): Promise<AIResponse>;
+
+    /**
+     * Generate a response while reporting text as it arrives.
+     * Adapters without streaming support deliver the whole completion as a single chunk.
+     * @param messages The system, user and assistant messages to send
+     * @param options Additional options for the AI response
+     * @param onChunk Called with each new piece of generated text
+     * @param signal Stops the generation early; the text received so far is kept
+     * @returns A promise that resolves to the AI response with the full (or partial) text
+     */
+    async generateStreamingResponse(
+        messages: AIMessage[],
+        options: AIResponseOptions | undefined,
+        onChunk: (chunk: string) => void,
+        signal?: AbortSignal
+    ): Promise<AIResponse> {
+        const response = await this.generateResponse(messages, options);
+        if (response.success && response.data && !signal?.aborted) {
+            onChunk(response.data);
+        }
+        return response;
+    }
 
     /**
      * Test the connection to the AI service
@@ -34,4 +56,51 @@ export abstract class BaseAdapter {
      * @returns The AI provider enum value
      */
     abstract getProviderType(): string;
+
+    /**
+     * List the API names of the models the adapter knows without a request
+     * @returns The model API names
+     */
+    getAvailableModels?(): string[];
+
+    /**
+     * Fetch the models the provider currently offers.
+     * Adapters without a models endpoint return the curated list.
+     * A maxTokens of 0 means the provider did not report an output limit.
+     * @returns A promise that resolves to the provider's models
+     */
+    async fetchModels(): Promise<AIModel[]> {
+        return AIModelUtils.getModelsByProvider(this.getProviderType() as AIProvider);
+    }
+
+    /**
+     * Read a server-sent event stream, passing each parsed `data:` payload to the callback
+     * @param body The response body stream
+     * @param onData Called with each JSON payload; the `[DONE]` sentinel is skipped
+     */
+    protected async readEventStream(body: ReadableStream<Uint8Array>, onData: (data: any) => void): Promise<void> {
+        const reader = body.getReader();
+        const decoder = new TextDecoder();
+        let buffer = '';
+
+        while (true) {
+            const { done, value } = await reader.read();
+            if (done) break;
+
+            buffer += decoder.decode(value, { stream: true });
+            const lines = buffer.split('\n');
+            buffer = lines.pop() || '';
+
+            for (const line of lines) {
+                const trimmed = line.trim();
+                // Lines without a data field are comments or keep-alives
+                if (!trimmed.startsWith('data:')) continue;
+
+                const payload = trimmed.slice('data:'.length).trim();
+                if (!payload || payload === '[DONE]') continue;
+
+                onData(JSON.parse(payload));
+            }
+        }
+    }
 }
@@ -0,0 +1,171 @@
+import { BaseAdapter } from './base';
+import { AIMessage, AIModel, AIResponse, AIResponseOptions, AIProvider, AIModelMap } from '@/types/aiModels';
+import { requestUrl, RequestUrlOptions, RequestUrlResponse } from 'obsidian';
+
+// Finish reasons for candidates Gemini stopped because of their content, usually without any parts
+const BLOCKED_FINISH_REASONS: Record<string, string> = {
+    SAFETY: 'for safety reasons',
+    PROHIBITED_CONTENT: 'because it contained prohibited content',
+    BLOCKLIST: 'because it contained blocklisted terms',
+    SPII: 'because it contained sensitive personal information',
+    RECITATION: 'because it recited copyrighted material'
+};
+
+export class GeminiAdapter extends BaseAdapter {
+    private apiKey: string = '';
+    private apiUrl: string = 'https://generativelanguage.googleapis.com/v1beta';
+
+    configure(config: Record<string, any>): void {
+        this.apiKey = config.apiKey || '';
+        this.apiUrl = config.apiUrl || this.apiUrl;
+    }
+
+    async generateResponse(messages: AIMessage[], options?: AIResponseOptions): Promise<AIResponse> {
+        if (!this.apiKey) {
+            throw new Error('Gemini API key is not configured.');
+        }
+
+        const temperature = options?.temperature ?? 0.7;
+        const maxTokens = options?.maxTokens ?? 1000;
+        const model = options?.model || AIModelMap[AIProvider.Gemini][0].apiName;
+
+        // Gemini takes system instructions separately and calls the assistant role "model"
+        const system = messages
+            .filter(message => message.role === 'system')
+            .map(message => message.content)
+            .join('\n\n');
+        const contents = messages
+            .filter(message => message.role !== 'system')
+            .map(message => ({
+                role: message.role === 'assistant' ? 'model' : 'user',
+                parts: [{ text: message.content }]
+            }));
+
+        const requestOptions: RequestUrlOptions = {
+            url: `${this.apiUrl}/models/${model}:generateContent`,
+            method: 'POST',
+            headers: {
+                'x-goog-api-key': this.apiKey,
+                'Content-Type': 'application/json'
+            },
+            body: JSON.stringify({
+                ...(system ? { systemInstruction: { parts: [{ text: system }] } } : {}),
+                contents: contents,
+                generationConfig: {
+                    temperature: temperature,
+                    maxOutputTokens: maxTokens
+                }
+            })
+        };
+
+        try {
+            const response: RequestUrlResponse = await requestUrl(requestOptions);
+
+            if (response.status !== 200) {
+                throw new Error(`Gemini API Error: ${response.status}`);
+            }
+
+            const responseData = response.json;
+
+            // The prompt itself can be rejected before any candidate is generated
+            const blockReason = responseData.promptFeedback?.blockReason;
+            if (blockReason) {
+                throw new Error(`Gemini blocked the prompt (${blockReason}). Try rephrasing your requirements.`);
+            }
+
+            if (!responseData.candidates || responseData.candidates.length === 0) {
+                throw new Error('No candidates found in Gemini response.');
+            }
+
+            const candidate = responseData.candidates[0];
+            const blockedReason = BLOCKED_FINISH_REASONS[candidate.finishReason];
+            if (blockedReason) {
+                const categories = candidate.finishReason === 'SAFETY' ? ` (${this.getBlockedCategories(candidate)})` : '';
+                throw new Error(`Gemini stopped the response ${blockedReason}${categories}. Try rephrasing your requirements.`);
+            }
+
+            const content = (candidate.content?.parts || [])
+                .map((part: any) => part.text || '')
+                .join('');
+
+            const tokens = {
+                input: responseData.usageMetadata?.promptTokenCount || 0,
+                output: responseData.usageMetadata?.candidatesTokenCount || 0,
+                total: responseData.usageMetadata?.totalTokenCount || 0
+            };
+
+            return {
+                success: true,
+                data: content,
+                tokens: tokens
+            };
+        } catch (error: any) {
+            console.error('Gemini Adapter Error:', error);
+            return {
+                success: false,
+                error: error.message || 'Unknown error occurred.',
+                tokens: {
+                    input: 0,
+                    output: 0,
+                    total: 0
+                }
+            };
+        }
+    }
+
+    async testConnection(): Promise<boolean> {
+        try {
+            const testMessages: AIMessage[] = [{ role: 'user', content: 'Hello, this is a test prompt.' }];
+            const response = await this.generateResponse(testMessages, { maxTokens: 10 });
+            return response.success && !!response.data;
+        } catch (error) {
+            console.error('Gemini Adapter Test Connection Error:', error);
+            return false;
+        }
+    }
+
+    getProviderType(): string {
+        return AIProvider.Gemini;
+    }
+
+    public getAvailableModels(): string[] {
+        const models = AIModelMap[AIProvider.Gemini];
+        return models.map(model => model.apiName);
+    }
+
+    async fetchModels(): Promise<AIModel[]> {
+        const response: RequestUrlResponse = await requestUrl({
+            url: `${this.apiUrl}/models?pageSize=1000`,
+            method: 'GET',
+            headers: {
+                'x-goog-api-key': this.apiKey
+            }
+        });
+
+        if (response.status !== 200) {
+            throw new Error(`Gemini API Error: ${response.status}`);
+        }
+
+        // Embedding and other non-generative models are listed too
+        return (response.json?.models || [])
+            .filter((model: any) => (model.supportedGenerationMethods || []).includes('generateContent'))
+            .map((model: any) => ({
+                apiName: String(model.name).replace(/^models\//, ''),
+                displayName: model.displayName || String(model.name),
+                provider: AIProvider.Gemini,
+                maxTokens: model.outputTokenLimit || 0,
+                contextLength: model.inputTokenLimit || undefined
+            }));
+    }
+
+    /**
+     * Lists the harm categories that caused a candidate to be blocked
+     * @private
+     */
+    private getBlockedCategories(candidate: any): string {
+        const categories = (candidate.safetyRatings || [])
+            .filter((rating: any) => rating.blocked || rating.probability === 'HIGH')
+            .map((rating: any) => String(rating.category).replace('HARM_CATEGORY_', '').toLowerCase());
+        return categories.length > 0 ? categories.join(', ') : 'unspecified';
+    }
+}
@@ -0,0 +1,123 @@
+import { BaseAdapter } from './base';
+import { AIMessage, AIModel, AIResponse, AIResponseOptions, AIProvider, AIModelMap } from '@/types/aiModels';
+import { requestUrl, RequestUrlOptions, RequestUrlResponse } from 'obsidian';
+
+export class GroqAdapter extends BaseAdapter {
+    private apiKey: string = '';
+    private apiUrl: string = 'https://api.groq.com/openai/v1/chat/completions';
+
+    configure(config: Record<string, any>): void {
+        this.apiKey = config.apiKey || '';
+        this.apiUrl = config.apiUrl || this.apiUrl;
+    }
+
+    async generateResponse(messages: AIMessage[], options?: AIResponseOptions): Promise<AIResponse> {
+        if (!this.apiKey) {
+            throw new Error('Groq API key is not configured.');
+        }
+
+        const temperature = options?.temperature ?? 0.7;
+        const maxTokens = options?.maxTokens ?? 1000;
+        const model = options?.model || AIModelMap[AIProvider.Groq][0].apiName;
+
+        const requestOptions: RequestUrlOptions = {
+            url: this.apiUrl,
+            method: 'POST',
+            headers: {
+                'Authorization': `Bearer ${this.apiKey}`,
+                'Content-Type': 'application/json'
+            },
+            body: JSON.stringify({
+                model: model,
+                messages: messages,
+                temperature: temperature,
+                max_tokens: maxTokens,
+                stream: false
+            })
+        };
+
+        try {
+            const response: RequestUrlResponse = await requestUrl(requestOptions);
+
+            if (response.status !== 200) {
+                throw new Error(`Groq API Error: ${response.status}`);
+            }
+
+            const responseData = response.json;
+
+            if (!responseData.choices || responseData.choices.length === 0) {
+                throw new Error('No choices found in Groq response.');
+            }
+
+            const content = responseData.choices[0].message?.content || '';
+
+            const tokens = {
+                input: responseData.usage?.prompt_tokens || 0,
+                output: responseData.usage?.completion_tokens || 0,
+                total: responseData.usage?.total_tokens || 0
+            };
+
+            return {
+                success: true,
+                data: content,
+                tokens: tokens
+            };
+        } catch (error: any) {
+            console.error('Groq Adapter Error:', error);
+            return {
+                success: false,
+                error: error.message || 'Unknown error occurred.',
+                tokens: {
+                    input: 0,
+                    output: 0,
+                    total: 0
+                }
+            };
+        }
+    }
+
+    async testConnection(): Promise<boolean> {
+        try {
+            const testMessages: AIMessage[] = [{ role: 'user', content: 'Hello, this is a test prompt.' }];
+            const response = await this.generateResponse(testMessages, { maxTokens: 10 });
+            return response.success && !!response.data;
+        } catch (error) {
+            console.error('Groq Adapter Test Connection Error:', error);
+            return false;
+        }
+    }
+
+    getProviderType(): string {
+        return AIProvider.Groq;
+    }
+
+    public getAvailableModels(): string[] {
+        const models = AIModelMap[AIProvider.Groq];
+        return models.map(model => model.apiName);
+    }
+
+    async fetchModels(): Promise<AIModel[]> {
+        const response: RequestUrlResponse = await requestUrl({
+            url: this.apiUrl.replace(/\/chat\/completions\/?$/, '/models'),
+            method: 'GET',
+            headers: {
+                'Authorization': `Bearer ${this.apiKey}`
+            }
+        });
+
+        if (response.status !== 200) {
+            throw new Error(`Groq API Error: ${response.status}`);
+        }
+
+        // Speech-to-text models share the list but cannot fill templates
+        return (response.json?.data || [])
+            .filter((model: any) => model.active !== false && !String(model.id).startsWith('whisper'))
+            .map((model: any) => ({
+                apiName: String(model.id),
+                displayName: String(model.id),
+                provider: AIProvider.Groq,
+                maxTokens: model.max_completion_tokens || 0,
+                contextLength: model.context_window || undefined
+            }));
+    }
+}
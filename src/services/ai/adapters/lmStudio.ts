@@ -0,0 +1,124 @@
+import { BaseAdapter } from './base';
+import { AIMessage, AIModel, AIResponse, AIResponseOptions, AIProvider } from '@/types/aiModels';
+import { requestUrl, RequestUrlOptions, RequestUrlResponse } from 'obsidian';
+
+export class LMStudioAdapter extends BaseAdapter {
+    private host: string = 'localhost';
+    private port: number = 1234;
+    private models: string[] = [];
+
+    configure(config: Record<string, any>): void {
+        this.host = config.host || this.host;
+        this.port = config.port || this.port;
+    }
+
+    async generateResponse(messages: AIMessage[], options?: AIResponseOptions): Promise<AIResponse> {
+        const temperature = options?.temperature ?? 0.7;
+        const maxTokens = options?.maxTokens ?? 1000;
+
+        const requestOptions: RequestUrlOptions = {
+            url: `${this.getBaseUrl()}/chat/completions`,
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json'
+            },
+            body: JSON.stringify({
+                // LM Studio falls back to the currently loaded model when none is given
+                ...(options?.model ? { model: options.model } : {}),
+                messages: messages,
+                temperature: temperature,
+                max_tokens: maxTokens,
+                stream: false
+            })
+        };
+
+        try {
+            const response: RequestUrlResponse = await requestUrl(requestOptions);
+
+            if (response.status !== 200) {
+                throw new Error(`LM Studio API Error: ${response.status}`);
+            }
+
+            const responseData = response.json;
+
+            if (!responseData.choices || responseData.choices.length === 0) {
+                throw new Error('No choices found in LM Studio response.');
+            }
+
+            const content = responseData.choices[0].message?.content || '';
+
+            const tokens = {
+                input: responseData.usage?.prompt_tokens || 0,
+                output: responseData.usage?.completion_tokens || 0,
+                total: responseData.usage?.total_tokens || 0
+            };
+
+            return {
+                success: true,
+                data: content,
+                tokens: tokens
+            };
+        } catch (error: any) {
+            console.error('LM Studio Adapter Error:', error);
+            return {
+                success: false,
+                error: error.message || `Could not reach LM Studio at ${this.getBaseUrl()}.`,
+                tokens: {
+                    input: 0,
+                    output: 0,
+                    total: 0
+                }
+            };
+        }
+    }
+
+    async testConnection(): Promise<boolean> {
+        try {
+            const models = await this.fetchModels();
+            return models.length > 0;
+        } catch (error) {
+            console.error('LM Studio Adapter Test Connection Error:', error);
+            return false;
+        }
+    }
+
+    getProviderType(): string {
+        return AIProvider.LMStudio;
+    }
+
+    /**
+     * Returns the models found by the last call to fetchModels
+     */
+    public getAvailableModels(): string[] {
+        return this.models;
+    }
+
+    /**
+     * Queries the local server for the models it can serve
+     * @returns A promise that resolves to the loaded and downloaded models
+     */
+    async fetchModels(): Promise<AIModel[]> {
+        const response: RequestUrlResponse = await requestUrl({
+            url: `${this.getBaseUrl()}/models`,
+            method: 'GET'
+        });
+
+        if (response.status !== 200) {
+            throw new Error(`LM Studio API Error: ${response.status}`);
+        }
+
+        this.models = (response.json?.data || []).map((model: any) => String(model.id));
+        return this.models.map(id => ({
+            apiName: id,
+            displayName: id,
+            provider: AIProvider.LMStudio,
+            maxTokens: 0,
+            // Local inference has no per-token cost
+            pricing: { input: 0, output: 0 }
+        }));
+    }
+
+    private getBaseUrl(): string {
+        return `http://${this.host}:${this.port}/v1`;
+    }
+}
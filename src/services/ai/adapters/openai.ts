@@ -0,0 +1,161 @@
+import { BaseAdapter } from './base';
+import { AIMessage, AIModel, AIResponse, AIResponseOptions, AIProvider, AIModelMap } from '@/types/aiModels';
+import { requestUrl, RequestUrlOptions, RequestUrlResponse } from 'obsidian';
+
+export class OpenAIAdapter extends BaseAdapter {
+    private apiKey: string = '';
+    private apiUrl: string = 'https://api.openai.com/v1/chat/completions';
+
+    configure(config: Record<string, any>): void {
+        this.apiKey = config.apiKey || '';
+        this.apiUrl = config.apiUrl || this.apiUrl;
+    }
+
+    async generateResponse(messages: AIMessage[], options?: AIResponseOptions): Promise<AIResponse> {
+        if (!this.apiKey) {
+            throw new Error('OpenAI API key is not configured.');
+        }
+
+        const temperature = options?.temperature ?? 0.7;
+        const maxTokens = options?.maxTokens ?? 1000;
+        const model = options?.model || AIModelMap[AIProvider.OpenAI][0].apiName;
+
+        const requestOptions: RequestUrlOptions = {
+            url: this.apiUrl,
+            method: 'POST',
+            headers: {
+                ...this.getAuthHeaders(),
+                'Content-Type': 'application/json'
+            },
+            // Reasoning models reject max_tokens and any temperature but the default
+            body: JSON.stringify(this.isReasoningModel(model)
+                ? {
+                    model: model,
+                    messages: messages,
+                    max_completion_tokens: maxTokens,
+                    stream: false
+                }
+                : {
+                    model: model,
+                    messages: messages,
+                    temperature: temperature,
+                    max_tokens: maxTokens,
+                    stream: false
+                })
+        };
+
+        try {
+            const response: RequestUrlResponse = await requestUrl(requestOptions);
+
+            if (response.status !== 200) {
+                throw new Error(`OpenAI API Error: ${response.status}`);
+            }
+
+            const responseData = response.json;
+
+            if (!responseData.choices || responseData.choices.length === 0) {
+                throw new Error('No choices found in OpenAI response.');
+            }
+
+            const content = responseData.choices[0].message?.content || '';
+
+            const tokens = {
+                input: responseData.usage?.prompt_tokens || 0,
+                output: responseData.usage?.completion_tokens || 0,
+                total: responseData.usage?.total_tokens || 0
+            };
+
+            return {
+                success: true,
+                data: content,
+                tokens: tokens
+            };
+        } catch (error: any) {
+            console.error('OpenAI Adapter Error:', error);
+            return {
+                success: false,
+                error: error.message || 'Unknown error occurred.',
+                tokens: {
+                    input: 0,
+                    output: 0,
+                    total: 0
+                }
+            };
+        }
+    }
+
+    async testConnection(): Promise<boolean> {
+        try {
+            const testMessages: AIMessage[] = [{ role: 'user', content: 'Hello, this is a test prompt.' }];
+            const response = await this.generateResponse(testMessages, { maxTokens: 10 });
+            return response.success && !!response.data;
+        } catch (error) {
+            console.error('OpenAI Adapter Test Connection Error:', error);
+            return false;
+        }
+    }
+
+    getProviderType(): string {
+        return AIProvider.OpenAI;
+    }
+
+    public getAvailableModels(): string[] {
+        const models = AIModelMap[AIProvider.OpenAI];
+        return models.map(model => model.apiName);
+    }
+
+    async fetchModels(): Promise<AIModel[]> {
+        const response: RequestUrlResponse = await requestUrl({
+            url: this.getModelsUrl(),
+            method: 'GET',
+            headers: this.getAuthHeaders()
+        });
+
+        if (response.status !== 200) {
+            throw new Error(`OpenAI API Error: ${response.status}`);
+        }
+
+        // api.openai.com also lists embedding, audio and image models; gateways list only what they serve
+        const isOpenAI = this.apiUrl.startsWith('https://api.openai.com/');
+        return (response.json?.data || [])
+            .map((model: any) => String(model.id))
+            .filter((id: string) => !isOpenAI || /^(gpt-|o\d|chatgpt-)/.test(id))
+            .map((id: string) => ({
+                apiName: id,
+                displayName: id,
+                provider: AIProvider.OpenAI,
+                maxTokens: 0
+            }));
+    }
+
+    /**
+     * The models endpoint next to the configured completions endpoint, keeping query
+     * parameters such as Azure's `api-version`
+     * @private
+     */
+    private getModelsUrl(): string {
+        const url = new URL(this.apiUrl);
+        url.pathname = url.pathname.replace(/\/chat\/completions\/?$/, '/models');
+        return url.toString();
+    }
+
+    /**
+     * Whether the model is an o-series reasoning model
+     * @private
+     */
+    private isReasoningModel(model: string): boolean {
+        return /^o\d/.test(model);
+    }
+
+    /**
+     * Azure OpenAI deployments authenticate with an `api-key` header,
+     * while OpenAI and most compatible gateways expect a bearer token
+     * @private
+     */
+    private getAuthHeaders(): Record<string, string> {
+        if (/\.openai\.azure\.com\//i.test(this.apiUrl)) {
+            return { 'api-key': this.apiKey };
+        }
+        return { 'Authorization': `Bearer ${this.apiKey}` };
+    }
+}
@@ -1,5 +1,5 @@
 import { BaseAdapter } from './base';
-import { AIResponse, AIResponseOptions, AIProvider, AIModelMap } from '@/types/aiModels';
+import { AIMessage, AIModel, AIResponse, AIResponseOptions, AIProvider, AIModelMap } from '@/types/aiModels';
 import { requestUrl, RequestUrlOptions, RequestUrlResponse } from 'obsidian';
 import { CONFIG } from '@/utils/config';
 
@@ -12,31 +12,16 @@ export class OpenRouterAdapter extends BaseAdapter {
         this.apiUrl = config.apiUrl || this.apiUrl;
     }
 
-    async generateResponse(prompt: string, options?: AIResponseOptions): Promise<AIResponse> {
+    async generateResponse(messages: AIMessage[], options?: AIResponseOptions): Promise<AIResponse> {
         if (!this.apiKey) {
             throw new Error('OpenRouter API key is not configured.');
         }
 
-        const temperature = options?.temperature ?? 0.7;
-        const maxTokens = options?.maxTokens ?? 1000;
-        const model = options?.model || 'default-model';
-
         const requestOptions: RequestUrlOptions = {
             url: this.apiUrl,
             method: 'POST',
-            headers: {
-                'Authorization': `Bearer ${this.apiKey}`,
-                'Content-Type': 'application/json',
-                'X-Referer': CONFIG.REFERRER || '',
-                'X-Title': CONFIG.APP_NAME || ''
-            },
-            body: JSON.stringify({
-                model: model,
-                prompt: prompt,
-                temperature: temperature,
-                max_tokens: maxTokens,
-                stream: false
-            })
+            headers: this.getHeaders(),
+            body: this.buildRequestBody(messages, options, false)
         };
 
         try {
@@ -52,7 +37,7 @@ export class OpenRouterAdapter extends BaseAdapter {
                 throw new Error('No choices found in OpenRouter response.');
             }
 
-            const content = responseData.choices[0].text || '';
+            const content = responseData.choices[0].message?.content || '';
 
             const tokens = {
                 input: responseData.usage?.prompt_tokens || 0,
@@ -79,10 +64,84 @@ export class OpenRouterAdapter extends BaseAdapter {
         }
     }
 
+    async generateStreamingResponse(
+        messages: AIMessage[],
+        options: AIResponseOptions | undefined,
+        onChunk: (chunk: string) => void,
+        signal?: AbortSignal
+    ): Promise<AIResponse> {
+        if (!this.apiKey) {
+            throw new Error('OpenRouter API key is not configured.');
+        }
+
+        let content = '';
+        const tokens = {
+            input: 0,
+            output: 0,
+            total: 0
+        };
+
+        try {
+            // requestUrl buffers the whole body, so streaming goes through fetch
+            const response = await fetch(this.apiUrl, {
+                method: 'POST',
+                headers: this.getHeaders(),
+                body: this.buildRequestBody(messages, options, true),
+                signal: signal
+            });
+
+            if (!response.ok || !response.body) {
+                throw new Error(`OpenRouter API Error: ${response.status}`);
+            }
+
+            await this.readEventStream(response.body, (data: any) => {
+                if (data.error) {
+                    throw new Error(data.error.message || 'OpenRouter stream error.');
+                }
+
+                const choice = data.choices?.[0];
+                const delta = choice?.delta?.content || '';
+                if (delta) {
+                    content += delta;
+                    onChunk(delta);
+                }
+
+                // Usage arrives with the final chunk
+                if (data.usage) {
+                    tokens.input = data.usage.prompt_tokens || 0;
+                    tokens.output = data.usage.completion_tokens || 0;
+                    tokens.total = data.usage.total_tokens || 0;
+                }
+            });
+
+            return {
+                success: true,
+                data: content,
+                tokens: tokens
+            };
+        } catch (error: any) {
+            // Stopping early is not a failure: keep what has been generated so far
+            if (signal?.aborted) {
+                return {
+                    success: true,
+                    data: content,
+                    tokens: tokens
+                };
+            }
+
+            console.error('OpenRouter Adapter Streaming Error:', error);
+            return {
+                success: false,
+                error: error.message || 'Unknown error occurred.',
+                tokens: tokens
+            };
+        }
+    }
+
     async testConnection(): Promise<boolean> {
         try {
-            const testPrompt = 'Hello, this is a test prompt.';
-            const response = await this.generateResponse(testPrompt, { maxTokens: 10 });
+            const testMessages: AIMessage[] = [{ role: 'user', content: 'Hello, this is a test prompt.' }];
+            const response = await this.generateResponse(testMessages, { maxTokens: 10 });
             return response.success && !!response.data;
         } catch (error) {
             console.error('OpenRouter Adapter Test Connection Error:', error);
@@ -98,4 +157,47 @@ export class OpenRouterAdapter extends BaseAdapter {
         const models = AIModelMap[AIProvider.OpenRouter];
         return models.map(model => model.apiName);
     }
+
+    async fetchModels(): Promise<AIModel[]> {
+        const response: RequestUrlResponse = await requestUrl({
+            url: this.apiUrl.replace(/\/chat\/completions\/?$/, '/models'),
+            method: 'GET'
+        });
+
+        if (response.status !== 200) {
+            throw new Error(`OpenRouter API Error: ${response.status}`);
+        }
+
+        // OpenRouter reports prices in USD per token as strings
+        return (response.json?.data || []).map((model: any) => ({
+            apiName: String(model.id),
+            displayName: model.name || String(model.id),
+            provider: AIProvider.OpenRouter,
+            maxTokens: model.top_provider?.max_completion_tokens || 0,
+            contextLength: model.context_length || undefined,
+            pricing: model.pricing ? {
+                input: Number(model.pricing.prompt) * 1e6,
+                output: Number(model.pricing.completion) * 1e6
+            } : undefined
+        }));
+    }
+
+    private getHeaders(): Record<string, string> {
+        return {
+            'Authorization': `Bearer ${this.apiKey}`,
+            'Content-Type': 'application/json',
+            'X-Referer': CONFIG.REFERRER || '',
+            'X-Title': CONFIG.APP_NAME || ''
+        };
+    }
+
+    private buildRequestBody(messages: AIMessage[], options: AIResponseOptions | undefined, stream: boolean): string {
+        return JSON.stringify({
+            model: options?.model || 'default-model',
+            messages: messages,
+            temperature: options?.temperature ?? 0.7,
+            max_tokens: options?.maxTokens ?? 1000,
+            stream: stream
+        });
+    }
 }
\ No newline at end of file
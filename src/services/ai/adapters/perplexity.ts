@@ -0,0 +1,120 @@
+import { BaseAdapter } from './base';
+import { AIMessage, AIResponse, AIResponseOptions, AIProvider, AIModelMap } from '@/types/aiModels';
+import { requestUrl, RequestUrlOptions, RequestUrlResponse } from 'obsidian';
+
+export class PerplexityAdapter extends BaseAdapter {
+    private apiKey: string = '';
+    private apiUrl: string = 'https://api.perplexity.ai/chat/completions';
+
+    configure(config: Record<string, any>): void {
+        this.apiKey = config.apiKey || '';
+        this.apiUrl = config.apiUrl || this.apiUrl;
+    }
+
+    async generateResponse(messages: AIMessage[], options?: AIResponseOptions): Promise<AIResponse> {
+        if (!this.apiKey) {
+            throw new Error('Perplexity API key is not configured.');
+        }
+
+        const temperature = options?.temperature ?? 0.7;
+        const maxTokens = options?.maxTokens ?? 1000;
+        const model = options?.model || AIModelMap[AIProvider.Perplexity][0].apiName;
+
+        const requestOptions: RequestUrlOptions = {
+            url: this.apiUrl,
+            method: 'POST',
+            headers: {
+                'Authorization': `Bearer ${this.apiKey}`,
+                'Content-Type': 'application/json'
+            },
+            body: JSON.stringify({
+                model: model,
+                messages: this.mergeConsecutiveMessages(messages),
+                temperature: temperature,
+                max_tokens: maxTokens,
+                stream: false
+            })
+        };
+
+        try {
+            const response: RequestUrlResponse = await requestUrl(requestOptions);
+
+            if (response.status !== 200) {
+                throw new Error(`Perplexity API Error: ${response.status}`);
+            }
+
+            const responseData = response.json;
+
+            if (!responseData.choices || responseData.choices.length === 0) {
+                throw new Error('No choices found in Perplexity response.');
+            }
+
+            const content = responseData.choices[0].message?.content || '';
+
+            const tokens = {
+                input: responseData.usage?.prompt_tokens || 0,
+                output: responseData.usage?.completion_tokens || 0,
+                total: responseData.usage?.total_tokens || 0
+            };
+
+            // Citation URLs are returned alongside the answer, indexed by the [n] markers in the text
+            const citations: string[] = (responseData.citations || []).map((citation: any) => String(citation));
+
+            return {
+                success: true,
+                data: content,
+                tokens: tokens,
+                citations: citations
+            };
+        } catch (error: any) {
+            console.error('Perplexity Adapter Error:', error);
+            return {
+                success: false,
+                error: error.message || 'Unknown error occurred.',
+                tokens: {
+                    input: 0,
+                    output: 0,
+                    total: 0
+                }
+            };
+        }
+    }
+
+    async testConnection(): Promise<boolean> {
+        try {
+            const testMessages: AIMessage[] = [{ role: 'user', content: 'Hello, this is a test prompt.' }];
+            const response = await this.generateResponse(testMessages, { maxTokens: 10 });
+            return response.success && !!response.data;
+        } catch (error) {
+            console.error('Perplexity Adapter Test Connection Error:', error);
+            return false;
+        }
+    }
+
+    getProviderType(): string {
+        return AIProvider.Perplexity;
+    }
+
+    public getAvailableModels(): string[] {
+        const models = AIModelMap[AIProvider.Perplexity];
+        return models.map(model => model.apiName);
+    }
+
+    /**
+     * Perplexity requires user and assistant turns to alternate,
+     * so consecutive messages with the same role are joined
+     * @private
+     */
+    private mergeConsecutiveMessages(messages: AIMessage[]): AIMessage[] {
+        const merged: AIMessage[] = [];
+        for (const message of messages) {
+            const previous = merged[merged.length - 1];
+            if (previous && previous.role === message.role) {
+                previous.content = `${previous.content}\n\n${message.content}`;
+            } else {
+                merged.push({ ...message });
+            }
+        }
+        return merged;
+    }
+}
@@ -7,17 +7,31 @@
 
 import { BaseAdapter } from './adapters/base';
 import { OpenRouterAdapter } from './adapters/openrouter';
-import { AIResponse } from '../../types/aiModels';
-import { LLMConfig, LLMProvider } from '../../types/settings';
+import { AnthropicAdapter } from './adapters/anthropic';
+import { OpenAIAdapter } from './adapters/openai';
+import { LMStudioAdapter } from './adapters/lmStudio';
+import { GeminiAdapter } from './adapters/gemini';
+import { GroqAdapter } from './adapters/groq';
+import { PerplexityAdapter } from './adapters/perplexity';
+import { AIMessage, AIModel, AIModelUtils, AIProvider, AIResponse, FillOptions, GenerationOverrides, SectionFill } from '../../types/aiModels';
+import { NoteBlank, StructureIssue, TemplateSection } from '../../types';
+import { DEFAULT_SYSTEM_PROMPT, LLMConfig, LLMProvider } from '../../types/settings';
+import { UsageLedger } from '../usageLedger';
+import { appendCitations, estimateTokens } from '../../utils/helpers';
+import { compareStructure, formatStructureIssues } from '../../utils/templateStructure';
+import { markBlanks } from '../../utils/noteBlanks';
+import { fillLiteralFields, parseTemplateFields } from '../../utils/templateFields';
 import { Notice } from 'obsidian';
 
 export class LLMService {
     private adapter: BaseAdapter | null = null;
     private config: LLMConfig;
+    private usageLedger: UsageLedger | null;
     private settings: { processing: { usePromptOptimization: boolean, defaultPromptTemplate: string } };
 
-    constructor(config: LLMConfig) {
+    constructor(config: LLMConfig, usageLedger: UsageLedger | null = null) {
         this.config = config;
+        this.usageLedger = usageLedger;
         this.settings = {
             processing: {
                 usePromptOptimization: false,
@@ -31,30 +45,81 @@ export class LLMService {
      * Initializes the appropriate LLM adapter based on user settings
      */
     private initializeAdapter(): void {
-        const provider = this.config.provider;
+        this.adapter = this.createAdapter(this.config);
 
-        switch (provider) {
+        if (!this.adapter) {
+            new Notice(`Unsupported LLM Provider: ${this.config.provider}`);
+        }
+    }
+
+    /**
+     * Creates and configures the adapter for a provider
+     * @private
+     */
+    private createAdapter(config: LLMConfig): BaseAdapter | null {
+        let adapter: BaseAdapter | null;
+
+        switch (config.provider) {
             case LLMProvider.OpenRouter:
-                this.adapter = new OpenRouterAdapter();
+                adapter = new OpenRouterAdapter();
                 break;
             case LLMProvider.LMStudio:
-                // Initialize LMStudioAdapter when implemented
-                // this.adapter = new LMStudioAdapter();
-                new Notice('LMStudio provider is not implemented yet.');
-                this.adapter = null;
+                adapter = new LMStudioAdapter();
+                break;
+            case LLMProvider.Anthropic:
+                adapter = new AnthropicAdapter();
+                break;
+            case LLMProvider.OpenAI:
+                adapter = new OpenAIAdapter();
+                break;
+            case LLMProvider.Gemini:
+                adapter = new GeminiAdapter();
+                break;
+            case LLMProvider.Groq:
+                adapter = new GroqAdapter();
+                break;
+            case LLMProvider.Perplexity:
+                adapter = new PerplexityAdapter();
                 break;
             // Add more providers here as needed
             default:
-                new Notice(`Unsupported LLM Provider: ${provider}`);
-                this.adapter = null;
+                adapter = null;
         }
 
-        if (this.adapter) {
-            this.adapter.configure({
-                apiKey: this.config.apiKey,
-                apiUrl: this.config.apiUrl // Optional: if using custom endpoints
+        if (adapter) {
+            adapter.configure({
+                apiKey: config.apiKey,
+                apiUrl: config.apiUrl, // Optional: if using custom endpoints
+                host: config.lmStudioHost,
+                port: config.lmStudioPort
             });
         }
+
+        return adapter;
+    }
+
+    /**
+     * Applies a template's overrides to the global LLM configuration
+     * @param overrides Provider, model and sampling settings set by the template
+     * @returns The configuration a fill with these overrides will use
+     */
+    public resolveConfig(overrides: GenerationOverrides = {}): LLMConfig {
+        const config: LLMConfig = { ...this.config };
+
+        const provider = overrides.provider as unknown as LLMProvider | undefined;
+        if (provider && provider !== this.config.provider) {
+            config.provider = provider;
+            config.apiKey = this.config.apiKeys?.[provider];
+            // Custom endpoints belong to the globally configured provider
+            config.apiUrl = undefined;
+            config.model = AIModelUtils.getModelsByProvider(provider as unknown as AIProvider)[0]?.apiName || '';
+        }
+
+        if (overrides.model) config.model = overrides.model;
+        if (overrides.temperature !== undefined) config.temperature = overrides.temperature;
+        if (overrides.maxTokens !== undefined) config.maxTokens = overrides.maxTokens;
+
+        return config;
     }
 
     /**
@@ -69,49 +134,534 @@ export class LLMService {
      * Generates a filled template based on the template content and user prompt
      * @param templateContent The raw content of the selected template
      * @param userPrompt The user's input prompt
+     * @param fillOptions Optional per-template system prompt, streaming callback and abort signal
      * @returns A promise that resolves to the filled template content
      */
-    public async generateFilledTemplate(templateContent: string, userPrompt: string): Promise<string> {
+    public async generateFilledTemplate(
+        templateContent: string,
+        userPrompt: string,
+        fillOptions: FillOptions = {}
+    ): Promise<string> {
         console.log('[LLMService.generateFilledTemplate] Input:', {
             templateContent,
             userPrompt
         });
 
-        if (!this.adapter) {
+        const messages = this.buildFillMessages(templateContent, userPrompt, fillOptions);
+        const fill = await this.runFill(messages, fillOptions);
+        return appendCitations(fill.content, fill.citations);
+    }
+
+    /**
+     * Fills one section of a template, with the sections filled before it as context
+     * @param sections The template split at its headings
+     * @param index The section to fill
+     * @param filledSections Filled content of the sections before it, in order
+     * @param userPrompt The user's input prompt
+     * @param fillOptions Optional per-template system prompt, streaming callback and abort signal
+     * @returns A promise that resolves to the filled section and its citations
+     */
+    public async generateFilledSection(
+        sections: TemplateSection[],
+        index: number,
+        filledSections: string[],
+        userPrompt: string,
+        fillOptions: FillOptions = {}
+    ): Promise<SectionFill> {
+        const messages = this.buildSectionMessages(sections, index, filledSections, userPrompt, fillOptions);
+        return this.runFill(messages, fillOptions);
+    }
+
+    /**
+     * Joins filled sections into one note, numbering their citations in a single sequence
+     * @param fills The filled sections, in template order
+     * @returns The filled template content
+     */
+    public assembleSections(fills: SectionFill[]): string {
+        const citations: string[] = [];
+        const parts = fills.map(fill => {
+            // Each section numbers its citations from [1]; shift them past the earlier sections'
+            const offset = citations.length;
+            citations.push(...fill.citations);
+            return fill.content.replace(/\[(\d+)\](?![(:])/g, (match, n: string) =>
+                Number(n) >= 1 && Number(n) <= fill.citations.length ? `[${Number(n) + offset}]` : match
+            );
+        });
+
+        return appendCitations(parts.join('\n\n'), citations);
+    }
+
+    /**
+     * Fills the blanks of an existing note, using the rest of the note as context
+     * @param content The note content
+     * @param blanks The blanks found in the note
+     * @param fillOptions Optional label for the usage ledger, streaming callback and abort signal
+     * @returns A promise that resolves to the filled values keyed by blank id; blanks the model skipped are missing
+     */
+    public async fillBlanks(content: string, blanks: NoteBlank[], fillOptions: FillOptions = {}): Promise<Record<number, string>> {
+        const list = blanks
+            .map(blank => `${blank.id}. ${blank.kind === 'marker' ? `Marker ${blank.label}` : blank.label}`)
+            .join('\n');
+
+        const messages: AIMessage[] = [
+            {
+                role: 'system',
+                content: 'You complete the unfilled parts of a Markdown note. Each part is marked ⟦BLANK n⟧. ' +
+                    'Write content that fits its place and the rest of the note, and follows any instruction in the original marker. ' +
+                    'Reply with only a JSON object mapping each blank number to its Markdown content, for example {"1": "...", "2": "..."}. ' +
+                    'Frontmatter values must be short, single-line values.'
+            },
+            {
+                role: 'user',
+                content: `Here is the note:\n---BEGIN NOTE---\n${markBlanks(content, blanks)}\n---END NOTE---`
+            },
+            {
+                role: 'user',
+                content: `The blanks to fill:\n${list}`
+            }
+        ];
+
+        const fill = await this.runFill(messages, fillOptions);
+        return this.parseBlankValues(fill.content);
+    }
+
+    /**
+     * Reads the JSON object of blank values, tolerating a code fence or text around it
+     * @private
+     */
+    private parseBlankValues(response: string): Record<number, string> {
+        const json = response.slice(response.indexOf('{'), response.lastIndexOf('}') + 1);
+        let parsed: unknown;
+        try {
+            parsed = JSON.parse(json);
+        } catch (error) {
+            throw new Error('The model did not return the filled blanks as JSON.');
+        }
+
+        const values: Record<number, string> = {};
+        Object.entries(parsed as Record<string, unknown>).forEach(([id, value]) => {
+            if (typeof value === 'string' && /^\d+$/.test(id)) {
+                values[Number(id)] = value;
+            }
+        });
+        return values;
+    }
+
+    /**
+     * Asks the model for a short title for a filled note
+     * @param content The filled note
+     * @param fillOptions The options the note was filled with
+     * @returns A promise that resolves to the title, or an empty string when none could be generated
+     */
+    public async suggestTitle(content: string, fillOptions: FillOptions = {}): Promise<string> {
+        const messages: AIMessage[] = [
+            {
+                role: 'system',
+                content: 'You name notes. Reply with only a concise, descriptive title of at most eight words, without quotes.'
+            },
+            {
+                role: 'user',
+                // The opening of a note is enough to name it
+                content: `---BEGIN NOTE---\n${content.slice(0, 6000)}\n---END NOTE---`
+            }
+        ];
+
+        try {
+            const fill = await this.runFill(messages, {
+                template: fillOptions.template,
+                overrides: { ...fillOptions.overrides, maxTokens: 50 }
+            });
+            return fill.content.split('\n')[0].replace(/^[#\s"'*]+|[\s"'*.]+$/g, '');
+        } catch (error) {
+            console.error('[LLMService.suggestTitle] Failed to suggest a title:', error);
+            return '';
+        }
+    }
+
+    /**
+     * Checks a filled note against the template's structure and asks the model to repair
+     * the differences. A repair is kept only when it leaves fewer differences.
+     * @param templateContent The raw content of the template
+     * @param filledContent The filled note
+     * @param fillOptions The options the note was filled with; repairs are not streamed
+     * @param maxAttempts How many repair requests to make at most
+     * @returns The best note and the differences it still has
+     */
+    public async enforceStructure(
+        templateContent: string,
+        filledContent: string,
+        fillOptions: FillOptions,
+        maxAttempts: number
+    ): Promise<{ content: string, issues: StructureIssue[] }> {
+        let content = filledContent;
+        let issues = compareStructure(templateContent, content);
+
+        for (let attempt = 1; attempt <= maxAttempts && issues.length > 0; attempt++) {
+            console.log(`[LLMService.enforceStructure] Repair attempt ${attempt}:`, issues);
+
+            const messages = this.buildRepairMessages(templateContent, content, issues, fillOptions);
+            let repaired: SectionFill;
+            try {
+                repaired = await this.runFill(messages, { ...fillOptions, onChunk: undefined });
+            } catch (error) {
+                if (fillOptions.signal?.aborted) {
+                    break;
+                }
+                throw error;
+            }
+
+            // A stopped repair is incomplete
+            if (fillOptions.signal?.aborted) {
+                break;
+            }
+
+            const remaining = compareStructure(templateContent, repaired.content);
+            if (remaining.length < issues.length) {
+                content = repaired.content;
+                issues = remaining;
+            }
+        }
+
+        return { content, issues };
+    }
+
+    /**
+     * Sends a fill conversation to the provider the fill resolves to, records its usage
+     * and substitutes literal fields in the output
+     * @private
+     */
+    private async runFill(messages: AIMessage[], fillOptions: FillOptions): Promise<SectionFill> {
+        const { onChunk, signal } = fillOptions;
+        const config = this.resolveConfig(fillOptions.overrides);
+        const adapter = config.provider === this.config.provider ? this.adapter : this.createAdapter(config);
+
+        if (!adapter) {
             throw new Error('LLM Adapter is not initialized.');
         }
 
         try {
-            // Create a more structured prompt that clearly separates template and instructions
-            const finalPrompt = `Here is a template to fill out:
----BEGIN TEMPLATE---
-${templateContent}
----END TEMPLATE---
+            console.log('[LLMService.runFill] Sending messages:', messages);
 
-Using these detailed instructions:
-${userPrompt}
+            const options = {
+                temperature: config.temperature ?? 0.7,
+                maxTokens: config.maxTokens || 2048,
+                model: config.model
+            };
 
-Please fill out the template above following these instructions. Preserve the template's structure and formatting while incorporating the details from the instructions.`;
+            let response: AIResponse;
+            if (onChunk) {
+                response = await adapter.generateStreamingResponse(messages, options, onChunk, signal);
+            } else {
+                if (signal?.aborted) {
+                    throw new Error('Generation was stopped');
+                }
+                const request = adapter.generateResponse(messages, options);
+                response = await this.untilAborted(request, signal).catch(error => {
+                    // A dropped request is still billed once it finishes
+                    request
+                        .then(late => late.success ? this.recordUsage(late, messages, config, fillOptions.template) : undefined)
+                        .catch(() => undefined);
+                    throw error;
+                });
+            }
 
-            console.log('[LLMService.generateFilledTemplate] Sending prompt:', finalPrompt);
+            if (response.success) {
+                await this.recordUsage(response, messages, config, fillOptions.template);
+            }
 
-            const response: AIResponse = await this.adapter.generateResponse(finalPrompt, {
-                temperature: this.config.temperature || 0.7,
-                maxTokens: this.config.maxTokens || 2048,
-                model: this.config.model
-            });
+            // A stopped generation may be partial or empty; the caller decides what to keep
+            const stopped = !!signal?.aborted && response.success;
 
-            if (!response.success || !response.data) {
+            if (!stopped && (!response.success || !response.data)) {
                 throw new Error(response.error || 'Failed to generate response');
             }
 
-            return String(response.data).trim();
+            return {
+                content: fillLiteralFields(String(response.data || '').trim(), fillOptions.fieldValues || {}),
+                citations: response.citations || []
+            };
         } catch (error: any) {
-            console.error('[LLMService.generateFilledTemplate] Generation error:', error);
+            console.error('[LLMService.runFill] Generation error:', error);
             throw new Error(`Failed to generate content: ${error.message}`);
         }
     }
 
+    /**
+     * Settles like the request, or rejects as soon as the signal aborts.
+     * Adapters cannot cancel a non-streaming request, so its response is dropped instead.
+     * @private
+     */
+    private untilAborted(request: Promise<AIResponse>, signal?: AbortSignal): Promise<AIResponse> {
+        if (!signal) {
+            return request;
+        }
+
+        return new Promise<AIResponse>((resolve, reject) => {
+            const onAbort = () => reject(new Error('Generation was stopped'));
+            signal.addEventListener('abort', onAbort, { once: true });
+            request.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+        });
+    }
+
+    /**
+     * Estimates the tokens a fill will use, for budget checks before generating.
+     * Output is assumed to be about twice the template's length, capped at maxTokens.
+     * @param templateContent The raw content of the selected template
+     * @param userPrompt The user's input prompt
+     * @param fillOptions The options the fill will be generated with
+     * @returns The estimated input and output tokens and their cost in USD (0 when pricing is unknown)
+     */
+    public estimateFill(
+        templateContent: string,
+        userPrompt: string,
+        fillOptions: FillOptions = {}
+    ): { inputTokens: number, outputTokens: number, cost: number } {
+        const config = this.resolveConfig(fillOptions.overrides);
+        const messages = this.buildFillMessages(templateContent, userPrompt, fillOptions);
+        const inputTokens = estimateTokens(messages.map(message => message.content).join('\n'));
+        const outputTokens = Math.min(config.maxTokens || 2048, estimateTokens(templateContent) * 2);
+        const cost = this.usageLedger?.estimateCost(config.provider, config.model, inputTokens, outputTokens) || 0;
+        return { inputTokens, outputTokens, cost };
+    }
+
+    /**
+     * Estimates the tokens a section-by-section fill will use. Each request repeats
+     * the system prompt and requirements and carries the sections before it, assumed
+     * to come out about twice as long as their template text.
+     * @param sections The template split at its headings
+     * @param userPrompt The user's input prompt
+     * @param fillOptions The options the fill will be generated with
+     * @returns The estimated input and output tokens and their cost in USD (0 when pricing is unknown)
+     */
+    public estimateSectionFill(
+        sections: TemplateSection[],
+        userPrompt: string,
+        fillOptions: FillOptions = {}
+    ): { inputTokens: number, outputTokens: number, cost: number } {
+        const config = this.resolveConfig(fillOptions.overrides);
+        const assumedFills = sections.map(section => section.content + section.content);
+
+        let inputTokens = 0;
+        let outputTokens = 0;
+        sections.forEach((section, index) => {
+            const messages = this.buildSectionMessages(sections, index, assumedFills.slice(0, index), userPrompt, fillOptions);
+            inputTokens += estimateTokens(messages.map(message => message.content).join('\n'));
+            outputTokens += Math.min(config.maxTokens || 2048, estimateTokens(section.content) * 2);
+        });
+
+        const cost = this.usageLedger?.estimateCost(config.provider, config.model, inputTokens, outputTokens) || 0;
+        return { inputTokens, outputTokens, cost };
+    }
+
+    /**
+     * Adds a finished call to the usage ledger, estimating tokens the provider did not report
+     * @private
+     */
+    private async recordUsage(response: AIResponse, messages: AIMessage[], config: LLMConfig, template?: string): Promise<void> {
+        if (!this.usageLedger) return;
+
+        const estimated = response.tokens.total === 0;
+        try {
+            await this.usageLedger.record({
+                provider: config.provider,
+                model: config.model,
+                template: template,
+                inputTokens: estimated
+                    ? estimateTokens(messages.map(message => message.content).join('\n'))
+                    : response.tokens.input,
+                outputTokens: estimated ? estimateTokens(response.data || '') : response.tokens.output,
+                estimated: estimated || undefined
+            });
+        } catch (error) {
+            // Failing to record usage must never lose a generated note
+            console.error('[LLMService.recordUsage] Failed to record usage:', error);
+        }
+    }
+
+    /**
+     * Builds the conversation for a fill: the system rules, then the template
+     * and the user's requirements as separate, clearly bounded messages
+     * @private
+     */
+    private buildFillMessages(templateContent: string, userPrompt: string, fillOptions: FillOptions): AIMessage[] {
+        const messages: AIMessage[] = [
+            { role: 'system', content: this.buildSystemPrompt(fillOptions) },
+            {
+                role: 'user',
+                content: `Here is the template to fill out:\n---BEGIN TEMPLATE---\n${templateContent}\n---END TEMPLATE---`
+            }
+        ];
+
+        const contextMessage = this.buildContextMessage(fillOptions);
+        if (contextMessage) {
+            messages.push(contextMessage);
+        }
+
+        const fieldInstructions = this.buildFieldInstructions(templateContent, fillOptions.fieldValues || {});
+        if (fieldInstructions) {
+            messages.push({ role: 'user', content: fieldInstructions });
+        }
+
+        if (userPrompt.trim()) {
+            messages.push({
+                role: 'user',
+                content: `Fill out the template using these requirements:\n---BEGIN REQUIREMENTS---\n${userPrompt}\n---END REQUIREMENTS---`
+            });
+        }
+
+        return messages;
+    }
+
+    /**
+     * Builds the conversation for filling one section: the system rules, an outline
+     * of the whole template, the sections filled so far and the section itself
+     * @private
+     */
+    private buildSectionMessages(
+        sections: TemplateSection[],
+        index: number,
+        filledSections: string[],
+        userPrompt: string,
+        fillOptions: FillOptions
+    ): AIMessage[] {
+        const section = sections[index];
+        const outline = sections
+            .map((s, i) => `${s.level > 0 ? `${'#'.repeat(s.level)} ${s.heading}` : '(text before the first heading)'}${i === index ? '  <- this section' : ''}`)
+            .join('\n');
+
+        const messages: AIMessage[] = [
+            {
+                role: 'system',
+                content: `${this.buildSystemPrompt(fillOptions)}\n\n` +
+                    'You are filling one section of a longer template. Return only the filled section, ' +
+                    'starting with its heading line exactly as written, and do not write any other section.'
+            },
+            {
+                role: 'user',
+                content: `Outline of the full template:\n---BEGIN OUTLINE---\n${outline}\n---END OUTLINE---`
+            }
+        ];
+
+        const contextMessage = this.buildContextMessage(fillOptions);
+        if (contextMessage) {
+            messages.push(contextMessage);
+        }
+
+        if (filledSections.length > 0) {
+            messages.push({
+                role: 'user',
+                content: `Sections filled so far, for context and consistency:\n---BEGIN FILLED SECTIONS---\n${filledSections.join('\n\n')}\n---END FILLED SECTIONS---`
+            });
+        }
+
+        messages.push({
+            role: 'user',
+            content: `Here is the section to fill out:\n---BEGIN SECTION---\n${section.content.trim()}\n---END SECTION---`
+        });
+
+        const fieldInstructions = this.buildFieldInstructions(section.content, fillOptions.fieldValues || {});
+        if (fieldInstructions) {
+            messages.push({ role: 'user', content: fieldInstructions });
+        }
+
+        if (userPrompt.trim()) {
+            messages.push({
+                role: 'user',
+                content: `Fill out the section using these requirements:\n---BEGIN REQUIREMENTS---\n${userPrompt}\n---END REQUIREMENTS---`
+            });
+        }
+
+        return messages;
+    }
+
+    /**
+     * Builds the conversation for repairing a note that lost the template's structure
+     * @private
+     */
+    private buildRepairMessages(
+        templateContent: string,
+        filledContent: string,
+        issues: StructureIssue[],
+        fillOptions: FillOptions
+    ): AIMessage[] {
+        return [
+            { role: 'system', content: this.buildSystemPrompt(fillOptions) },
+            {
+                role: 'user',
+                content: `Here is the template:\n---BEGIN TEMPLATE---\n${templateContent}\n---END TEMPLATE---`
+            },
+            {
+                role: 'user',
+                content: `Here is the note filled from it:\n---BEGIN NOTE---\n${filledContent}\n---END NOTE---`
+            },
+            {
+                role: 'user',
+                content: `The note does not match the template's structure:\n${formatStructureIssues(issues)}\n\n` +
+                    'Return the complete corrected note. Fix only these differences and keep all other content as it is.'
+            }
+        ];
+    }
+
+    /**
+     * Wraps the attached vault notes in a clearly bounded block, one heading per note
+     * @private
+     */
+    private buildContextMessage(fillOptions: FillOptions): AIMessage | null {
+        const notes = fillOptions.context || [];
+        if (notes.length === 0) {
+            return null;
+        }
+
+        const body = notes
+            .map(note => `### Note: ${note.path}${note.heading ? ` > ${note.heading}` : ''}\n${note.content.trim()}`)
+            .join('\n\n');
+        return {
+            role: 'user',
+            content: 'Use these notes from the vault as source material. Base facts on them instead of inventing details:\n' +
+                `---BEGIN CONTEXT---\n${body}\n---END CONTEXT---`
+        };
+    }
+
+    /**
+     * The global system prompt followed by the template's own instructions
+     * @private
+     */
+    private buildSystemPrompt(fillOptions: FillOptions): string {
+        return [this.config.systemPrompt || DEFAULT_SYSTEM_PROMPT, fillOptions.systemPrompt]
+            .filter(part => part && part.trim())
+            .join('\n\n');
+    }
+
+    /**
+     * Explains the template's placeholders: literal fields are copied through for exact
+     * substitution afterwards, AI fields are filled following their instructions
+     * @private
+     */
+    private buildFieldInstructions(templateContent: string, fieldValues: Record<string, string>): string | null {
+        const fields = parseTemplateFields(templateContent);
+        if (fields.length === 0) {
+            return null;
+        }
+
+        const lines = ['The template contains placeholders in double braces:'];
+
+        const literalFields = fields.filter(field => field.type === 'literal');
+        if (literalFields.length > 0) {
+            lines.push(`- Copy these placeholders into your output exactly as written; they are replaced with fixed values afterwards: ${literalFields.map(field => field.placeholder).join(', ')}`);
+            const known = literalFields.filter(field => fieldValues[field.name]);
+            if (known.length > 0) {
+                lines.push('  Their values, for context only:');
+                known.forEach(field => lines.push(`  - ${field.name}: ${fieldValues[field.name]}`));
+            }
+        }
+
+        if (fields.some(field => field.type === 'ai')) {
+            lines.push('- Replace each {{ai: ...}} placeholder with content that follows the instruction inside it.');
+        }
+
+        return `---BEGIN FIELDS---\n${lines.join('\n')}\n---END FIELDS---`;
+    }
+
     /**
      * Tests the connection to the configured LLM provider
      * @returns A promise that resolves to a boolean indicating success
@@ -142,9 +692,16 @@ Please fill out the template above following these instructions. Preserve the te
      * @returns An array of model names
      */
     public getAvailableModels(): string[] {
+        return this.adapter?.getAvailableModels?.() ?? [];
+    }
+
+    /**
+     * Fetches the provider's live model list
+     * @returns A promise that resolves to the provider's models
+     * @throws If the provider cannot be reached
+     */
+    public async fetchModels(): Promise<AIModel[]> {
         if (!this.adapter) return [];
-        // Ensure that the adapter has a getAvailableModels method
-        // You might need to add this method to the BaseAdapter and concrete adapters
-        return (this.adapter as any).getAvailableModels ? (this.adapter as any).getAvailableModels() : [];
+        return await this.adapter.fetchModels();
     }
 }
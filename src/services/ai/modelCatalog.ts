@@ -0,0 +1,104 @@
+// src/services/ai/modelCatalog.ts
+
+/**
+ * File: src/services/ai/modelCatalog.ts
+ * Cached catalog of the models offered by the configured provider,
+ * with context window, output limit and pricing details
+ */
+
+import { LLMService } from './llmService';
+import { AIModel, AIModelUtils, AIProvider, DEFAULT_MAX_TOKENS } from '../../types/aiModels';
+import { LLMConfig } from '../../types/settings';
+
+interface CatalogEntry {
+    models: AIModel[];
+    fetchedAt: number;
+}
+
+export class ModelCatalog {
+    private llmService: LLMService;
+    private config: LLMConfig;
+    private cache: Map<string, CatalogEntry> = new Map();
+    private cacheDuration: number = 60 * 60 * 1000; // 1 hour
+
+    constructor(llmService: LLMService, config: LLMConfig) {
+        this.llmService = llmService;
+        this.config = config;
+    }
+
+    /**
+     * Get the models of the configured provider, fetching them when the cache is stale
+     * @param forceRefresh Ignore the cache and ask the provider again
+     * @returns Promise<AIModel[]> Models sorted by display name
+     */
+    async getModels(forceRefresh: boolean = false): Promise<AIModel[]> {
+        const key = this.getCacheKey();
+        const cached = this.cache.get(key);
+
+        if (!forceRefresh && cached && Date.now() - cached.fetchedAt < this.cacheDuration) {
+            return cached.models;
+        }
+
+        let models: AIModel[];
+        try {
+            models = await this.llmService.fetchModels();
+        } catch (error) {
+            console.error('Failed to fetch model catalog:', error);
+            // Fall back to the curated list, but do not cache it so the next call retries
+            return this.normalize(AIModelUtils.getModelsByProvider(this.getProvider()));
+        }
+
+        const normalized = this.normalize(models);
+        this.cache.set(key, { models: normalized, fetchedAt: Date.now() });
+        return normalized;
+    }
+
+    /**
+     * Look up a model without fetching: uses the cached catalog, then the curated list
+     * @param apiName Model identifier
+     * @param provider Provider of the model; defaults to the configured provider
+     * @returns AIModel | undefined The model, if known
+     */
+    getModel(apiName: string, provider: AIProvider = this.getProvider()): AIModel | undefined {
+        // Only the configured provider's catalog is fetched
+        const cached = provider === this.getProvider() ? this.cache.get(this.getCacheKey()) : undefined;
+        const model = cached?.models.find(m => m.apiName === apiName)
+            || AIModelUtils.findModel(provider, apiName);
+        return model ? this.normalize([model])[0] : undefined;
+    }
+
+    /**
+     * Clear the cached catalog
+     */
+    clearCache(): void {
+        this.cache.clear();
+    }
+
+    /**
+     * Fill in known details and the default output limit, then sort by name
+     * @private
+     */
+    private normalize(models: AIModel[]): AIModel[] {
+        return models
+            .map(model => AIModelUtils.withKnownDetails(model))
+            .map(model => ({ ...model, maxTokens: model.maxTokens || DEFAULT_MAX_TOKENS }))
+            .sort((a, b) => a.displayName.localeCompare(b.displayName));
+    }
+
+    /**
+     * The catalog depends on the provider and on where it is reached
+     * @private
+     */
+    private getCacheKey(): string {
+        return [
+            this.config.provider,
+            this.config.apiUrl || '',
+            this.config.lmStudioHost || '',
+            this.config.lmStudioPort || ''
+        ].join('|');
+    }
+
+    private getProvider(): AIProvider {
+        return this.config.provider as unknown as AIProvider;
+    }
+}
@@ -0,0 +1,315 @@
+// src/services/batchFiller.ts
+
+/**
+ * File: src/services/batchFiller.ts
+ * Fills a template once per row of a CSV, JSON or Markdown table file
+ */
+
+import { App, TFile, moment } from 'obsidian';
+import { Template } from '../types';
+import { FillOptions } from '../types/aiModels';
+import { BatchProgress, BatchRowResult, BatchRun, BatchSummary } from '../types/batch';
+import { FillerInnerSettings } from '../types/settings';
+import { LLMService } from './ai/llmService';
+import { FileService } from './fileService';
+import { FrontmatterMerger } from './frontmatterMerger';
+import { TemplateManager } from './templateManager';
+import { hashText } from '../utils/helpers';
+import { TableRow, parseTableRows } from '../utils/tableData';
+
+/**
+ * A batch to run
+ */
+export interface BatchRequest {
+    template: Template;
+    source: TFile;
+    rows: TableRow[];
+    /** Instructions added to every row's prompt */
+    instructions: string;
+    /** Rows filled at the same time */
+    concurrency: number;
+    /** Skip rows an earlier run of the same template and file already filled */
+    resume: boolean;
+}
+
+export class BatchFiller {
+    private app: App;
+    private templateManager: TemplateManager;
+    private llmService: LLMService;
+    private fileService: FileService;
+    private settings: FillerInnerSettings;
+    private frontmatterMerger: FrontmatterMerger;
+    private runs: Record<string, BatchRun>;
+    private persist: () => Promise<void>;
+
+    /**
+     * @param runs Runs loaded from the plugin data, keyed by template and source path
+     * @param persist Writes the plugin data after a run changes
+     */
+    constructor(
+        app: App,
+        templateManager: TemplateManager,
+        llmService: LLMService,
+        fileService: FileService,
+        settings: FillerInnerSettings,
+        runs: Record<string, BatchRun>,
+        persist: () => Promise<void>
+    ) {
+        this.app = app;
+        this.templateManager = templateManager;
+        this.llmService = llmService;
+        this.fileService = fileService;
+        this.settings = settings;
+        this.frontmatterMerger = new FrontmatterMerger(settings);
+        this.runs = runs;
+        this.persist = persist;
+    }
+
+    /**
+     * Read the rows of a data file
+     * @param file A .csv, .json or .md file
+     * @returns Promise<TableRow[]> The rows
+     * @throws If the file holds no rows in a supported format
+     */
+    async loadRows(file: TFile): Promise<TableRow[]> {
+        return parseTableRows(await this.app.vault.cachedRead(file), file.extension);
+    }
+
+    /**
+     * The last run of a template over a data file, if any
+     * @returns BatchRun | undefined The saved run
+     */
+    getRun(template: Template, source: TFile): BatchRun | undefined {
+        return this.runs[this.getRunKey(template.path, source.path)];
+    }
+
+    /**
+     * Template fields a row provides a value for; column names match fields regardless of case and spacing
+     * @returns Record<string, string> Values keyed by field name
+     */
+    getFieldValues(template: Template, row: TableRow): Record<string, string> {
+        const values: Record<string, string> = {};
+        template.fields.forEach(field => {
+            const column = Object.keys(row).find(key => this.normalizeName(key) === this.normalizeName(field.name));
+            if (column && row[column]) {
+                values[field.name] = row[column];
+            }
+        });
+        return values;
+    }
+
+    /**
+     * Estimate the cost of filling the given rows
+     * @returns Promise<number> Estimated cost in USD (0 when pricing is unknown)
+     */
+    async estimateCost(template: Template, rows: TableRow[], instructions: string): Promise<number> {
+        const templateContent = await this.templateManager.loadTemplate(template.path);
+        const config = await this.templateManager.getTemplateConfig(template.path);
+
+        return rows.reduce((sum, row) => sum + this.llmService.estimateFill(templateContent, this.buildPrompt(instructions, row), {
+            template: template.name,
+            systemPrompt: config.systemPrompt,
+            overrides: config,
+            fieldValues: this.getFieldValues(template, row)
+        }).cost, 0);
+    }
+
+    /**
+     * Fill the template for every row, a few rows at a time, then write a report note.
+     * The run is saved after each row, so a failed or stopped run can be resumed.
+     * @param request What to fill
+     * @param onProgress Called after each row
+     * @param signal Stops the run; rows being filled are abandoned
+     * @returns Promise<BatchSummary> Counts, the saved run and the report note
+     */
+    async run(request: BatchRequest, onProgress: (progress: BatchProgress) => void, signal: AbortSignal): Promise<BatchSummary> {
+        const { template, source, rows } = request;
+        const templateContent = await this.templateManager.loadTemplate(template.path);
+        const config = await this.templateManager.getTemplateConfig(template.path);
+
+        const key = this.getRunKey(template.path, source.path);
+        const previous = request.resume ? this.runs[key] : undefined;
+        const run: BatchRun = {
+            templatePath: template.path,
+            sourcePath: source.path,
+            startedAt: previous?.startedAt || Date.now(),
+            rows: {}
+        };
+        this.runs[key] = run;
+
+        const progress: BatchProgress = { total: rows.length, done: 0, failed: 0, skipped: 0 };
+        const queue: number[] = [];
+
+        for (let index = 0; index < rows.length; index++) {
+            const rowHash = await hashText(JSON.stringify(rows[index]));
+            const earlier = previous?.rows[index];
+            // Rows filled earlier are kept as long as their values did not change
+            if (earlier && (earlier.status === 'done' || earlier.status === 'skipped') && earlier.rowHash === rowHash) {
+                run.rows[index] = { ...earlier, status: 'skipped' };
+                progress.skipped++;
+            } else {
+                run.rows[index] = { index, status: 'pending', rowHash };
+                queue.push(index);
+            }
+        }
+        onProgress({ ...progress });
+
+        const fillRow = async (index: number): Promise<void> => {
+            const row = rows[index];
+            const fieldValues = this.getFieldValues(template, row);
+            const prompt = this.buildPrompt(request.instructions, row);
+            const fillOptions: FillOptions = {
+                template: template.name,
+                systemPrompt: config.systemPrompt,
+                overrides: config,
+                fieldValues,
+                signal
+            };
+
+            try {
+                let content = await this.llmService.generateFilledTemplate(templateContent, prompt, fillOptions);
+                let message: string | undefined;
+
+                if (this.settings.processing.checkStructure) {
+                    const checked = await this.llmService.enforceStructure(
+                        templateContent,
+                        content,
+                        fillOptions,
+                        this.settings.processing.structureRepairAttempts
+                    );
+                    content = checked.content;
+                    // Nobody is watching to confirm, so the note is saved and the problems reported
+                    message = checked.issues.length > 0 ? checked.issues.map(issue => issue.message).join('; ') : undefined;
+                }
+                if (signal.aborted) {
+                    return;
+                }
+
+                const resolved = this.llmService.resolveConfig(config);
+                const note = await this.frontmatterMerger.merge(templateContent, content, fieldValues, {
+                    template,
+                    provider: resolved.provider,
+                    model: resolved.model,
+                    prompt
+                });
+
+                const pattern = this.fileService.getFilenamePattern(config.filenamePattern);
+                const title = this.fileService.usesTitle(pattern)
+                    ? this.getTitleColumn(row) || await this.llmService.suggestTitle(note, fillOptions)
+                    : undefined;
+                const file = await this.fileService.createFilledFile(template, note, {
+                    outputFolder: config.outputFolder,
+                    filenamePattern: config.filenamePattern,
+                    fieldValues,
+                    title,
+                    silent: true
+                });
+
+                run.rows[index] = { index, status: 'done', rowHash: run.rows[index].rowHash, notePath: file.path, message };
+                progress.done++;
+            } catch (error: any) {
+                if (signal.aborted) {
+                    return;
+                }
+                console.error(`[BatchFiller] Row ${index + 1} failed:`, error);
+                run.rows[index] = { ...run.rows[index], status: 'failed', message: error?.message || String(error) };
+                progress.failed++;
+            }
+
+            await this.persist();
+            onProgress({ ...progress });
+        };
+
+        // Created once up front instead of by whichever rows finish first
+        if (queue.length > 0) {
+            await this.fileService.ensureFolder(this.fileService.getOutputPath(config.outputFolder));
+        }
+
+        // Each worker takes the next row until the queue is empty or the run is stopped
+        const workers = Array.from({ length: Math.max(1, Math.min(request.concurrency, queue.length)) }, async () => {
+            let index = queue.shift();
+            while (index !== undefined && !signal.aborted) {
+                await fillRow(index);
+                index = queue.shift();
+            }
+        });
+        await Promise.all(workers);
+        await this.persist();
+
+        const summary: BatchSummary = { ...progress, run, stopped: signal.aborted };
+        try {
+            const report = await this.writeReport(template, source, rows, summary, config.outputFolder);
+            summary.report = report.path;
+        } catch (error) {
+            console.error('[BatchFiller] Failed to write the report:', error);
+        }
+        return summary;
+    }
+
+    /**
+     * Write a note listing the outcome of every row, with links to the created notes
+     * @private
+     */
+    private async writeReport(
+        template: Template,
+        source: TFile,
+        rows: TableRow[],
+        summary: BatchSummary,
+        outputFolder?: string
+    ): Promise<TFile> {
+        const label = (row: TableRow) => this.getTitleColumn(row) || Object.values(row).find(value => value.trim()) || '';
+        const cell = (text: string) => text.replace(/\|/g, '\\|').replace(/\s*\n\s*/g, ' ');
+        const link = (path?: string) => path ? `[[${path.replace(/\.md$/, '')}]]` : '';
+
+        const lines = [
+            `# Batch report: ${template.name}`,
+            '',
+            `- Source: [[${source.path}]]`,
+            `- Started: ${moment(summary.run.startedAt).format('YYYY-MM-DD HH:mm')}`,
+            `- Finished: ${moment().format('YYYY-MM-DD HH:mm')}${summary.stopped ? ' (stopped)' : ''}`,
+            `- ${summary.done} filled, ${summary.skipped} skipped as already filled, ${summary.failed} failed, ` +
+                `${summary.total - summary.done - summary.skipped - summary.failed} not processed`,
+            '',
+            '| Row | Record | Status | Note | Details |',
+            '| --- | --- | --- | --- | --- |',
+            ...rows.map((row, index) => {
+                const result: BatchRowResult | undefined = summary.run.rows[index];
+                return `| ${index + 1} | ${cell(label(row))} | ${result?.status || ''} | ${cell(link(result?.notePath))} | ${cell(result?.message || '')} |`;
+            })
+        ];
+
+        return await this.fileService.createFilledFile(template, lines.join('\n') + '\n', {
+            outputFolder,
+            filenamePattern: 'Batch report {{template}} {{date:YYYY-MM-DD HHmm}}'
+        });
+    }
+
+    /**
+     * The user's instructions followed by the row's values
+     * @private
+     */
+    private buildPrompt(instructions: string, row: TableRow): string {
+        const values = Object.keys(row)
+            .filter(key => row[key].trim())
+            .map(key => `- ${key}: ${row[key]}`)
+            .join('\n');
+        return [instructions.trim(), `Fill the template for this record:\n${values}`].filter(Boolean).join('\n\n');
+    }
+
+    /**
+     * A title or name column, used for file names and the report
+     * @private
+     */
+    private getTitleColumn(row: TableRow): string {
+        const column = Object.keys(row).find(key => ['title', 'name'].includes(this.normalizeName(key)));
+        return column ? row[column] : '';
+    }
+
+    private normalizeName(name: string): string {
+        return name.toLowerCase().replace(/[\s_-]+/g, '');
+    }
+
+    private getRunKey(templatePath: string, sourcePath: string): string {
+        return `${templatePath}|${sourcePath}`;
+    }
+}
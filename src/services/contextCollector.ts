@@ -0,0 +1,112 @@
+// src/services/contextCollector.ts
+
+/**
+ * File: src/services/contextCollector.ts
+ * Collects vault notes as source material for a fill, within a token budget
+ */
+
+import { App, TFile, TFolder } from 'obsidian';
+import { ContextNote } from '../types';
+import { estimateTokens } from '../utils/helpers';
+
+export class ContextCollector {
+    private app: App;
+
+    constructor(app: App) {
+        this.app = app;
+    }
+
+    /**
+     * Notes the given note links to
+     * @param file The note
+     * @returns TFile[] The linked Markdown notes
+     */
+    getLinkedNotes(file: TFile): TFile[] {
+        const links = this.app.metadataCache.resolvedLinks[file.path] || {};
+        return this.toNotes(Object.keys(links)).filter(note => note !== file);
+    }
+
+    /**
+     * Notes that link to the given note
+     * @param file The note
+     * @returns TFile[] The linking Markdown notes
+     */
+    getBacklinks(file: TFile): TFile[] {
+        const sources = Object.entries(this.app.metadataCache.resolvedLinks)
+            .filter(([source, links]) => source !== file.path && links[file.path])
+            .map(([source]) => source);
+        return this.toNotes(sources);
+    }
+
+    /**
+     * Markdown notes in a folder and its subfolders
+     * @param folder The folder
+     * @returns TFile[] The notes, sorted by path
+     */
+    getFolderNotes(folder: TFolder): TFile[] {
+        const prefix = folder.isRoot() ? '' : `${folder.path}/`;
+        return this.app.vault.getMarkdownFiles()
+            .filter(file => file.path.startsWith(prefix))
+            .sort((a, b) => a.path.localeCompare(b.path));
+    }
+
+    /**
+     * Estimate the tokens a note adds as context
+     * @param file The note
+     * @returns Promise<number> Estimated tokens
+     */
+    async countTokens(file: TFile): Promise<number> {
+        return estimateTokens(await this.app.vault.cachedRead(file));
+    }
+
+    /**
+     * Read notes as context
+     * @param files The notes to include
+     * @returns Promise<ContextNote[]> The notes with their whole content
+     */
+    async read(files: TFile[]): Promise<ContextNote[]> {
+        const notes: ContextNote[] = [];
+        for (const file of files) {
+            notes.push({ path: file.path, content: await this.app.vault.cachedRead(file) });
+        }
+        return notes;
+    }
+
+    /**
+     * Keep context, in order, until the token budget is used up.
+     * The entry that crosses the budget is cut short; the ones after it are left out.
+     * @param notes The context, most important first
+     * @param tokenBudget Maximum estimated tokens of context (0 for no limit)
+     * @returns The context that fits, and the entries that were cut short or left out
+     */
+    fitToBudget(notes: ContextNote[], tokenBudget: number): { notes: ContextNote[], truncated: ContextNote[], omitted: ContextNote[] } {
+        const kept: ContextNote[] = [];
+        const truncated: ContextNote[] = [];
+        const omitted: ContextNote[] = [];
+        let remaining = tokenBudget > 0 ? tokenBudget : Infinity;
+
+        for (const note of notes) {
+            const tokens = estimateTokens(note.content);
+
+            if (remaining <= 0) {
+                omitted.push(note);
+            } else if (tokens <= remaining) {
+                kept.push(note);
+                remaining -= tokens;
+            } else {
+                // estimateTokens assumes about four characters per token
+                kept.push({ ...note, content: `${note.content.slice(0, remaining * 4)}\n[…cut to fit the context budget]` });
+                truncated.push(note);
+                remaining = 0;
+            }
+        }
+
+        return { notes: kept, truncated, omitted };
+    }
+
+    private toNotes(paths: string[]): TFile[] {
+        return paths
+            .map(path => this.app.vault.getAbstractFileByPath(path))
+            .filter((file): file is TFile => file instanceof TFile && file.extension === 'md');
+    }
+}
@@ -5,69 +5,167 @@
  * Service for handling file operations like writing filled templates
  */
 
-import { App, TFolder, normalizePath, Notice } from 'obsidian';
-import { Template } from '../types';
-import { FillerInnerSettings } from '../types/settings';
+import { App, Editor, TFile, TFolder, normalizePath, Notice, moment } from 'obsidian';
+import { OutputOptions, Template, TemplateSection } from '../types';
+import { splitFrontmatter } from '../utils/frontmatter';
+import { splitTemplateSections } from '../utils/templateSections';
+import { DEFAULT_SETTINGS, FillerInnerSettings } from '../types/settings';
 
 export class FileService {
     private app: App;
-    private outputPath: string;
-    private templateExtension: string;
+    private settings: FillerInnerSettings;
+    // Folder creation and path reservation run one at a time, so concurrent writes
+    // cannot pick the same free path before either file exists
+    private writeQueue: Promise<unknown> = Promise.resolve();
 
     constructor(app: App, settings: FillerInnerSettings) {
         this.app = app;
-        this.outputPath = normalizePath(settings.paths.outputPath);
-        this.templateExtension = settings.paths.templateExtension || 'md';
+        // Paths are read on each write so changes in the settings tab apply right away
+        this.settings = settings;
+    }
+
+    /**
+     * Gets the folder filled templates are saved to
+     * @param outputFolder Folder set by the template, replacing the global output path
+     * @returns The normalized folder path; empty for the vault root
+     */
+    getOutputPath(outputFolder?: string): string {
+        const path = outputFolder || this.settings.paths.outputPath;
+        return path ? normalizePath(path) : '';
+    }
+
+    /**
+     * Gets the file name pattern for filled notes
+     * @param filenamePattern Pattern set by the template, replacing the global pattern
+     * @returns The pattern to use
+     */
+    getFilenamePattern(filenamePattern?: string): string {
+        return filenamePattern || this.settings.paths.filenamePattern || DEFAULT_SETTINGS.paths.filenamePattern;
+    }
+
+    /**
+     * Whether a file name pattern needs a suggested title
+     * @param pattern File name pattern
+     */
+    usesTitle(pattern: string): boolean {
+        return /\{\{\s*title\s*\}\}/i.test(pattern);
     }
 
     /**
      * Creates a filled template file in the specified output path
      * @param template The original template
      * @param content The filled content to write
-     * @returns A promise that resolves when the file is created
+     * @param output Output folder, file name pattern and token values
+     * @returns A promise that resolves to the created file
      */
-    async createFilledFile(template: Template, content: string): Promise<void> {
-        const folderPath = this.outputPath || this.app.vault.getRoot().path;
+    async createFilledFile(template: Template, content: string, output: OutputOptions = {}): Promise<TFile> {
+        const outputPath = this.getOutputPath(output.outputFolder);
+
+        // The pattern may place the note in subfolders of the output folder
+        const relativePath = this.renderFileName(this.getFilenamePattern(output.filenamePattern), template, content, output);
+        const separator = relativePath.lastIndexOf('/');
+        const folderPath = normalizePath([outputPath, relativePath.slice(0, Math.max(separator, 0))].filter(Boolean).join('/'));
+        const baseName = relativePath.slice(separator + 1);
+
+        return this.serialize(async () => {
+            const folder = await this.createFolderIfMissing(folderPath);
+            const filePath = this.getAvailablePath(folder, baseName);
 
-        // Ensure the folder exists
-        let folder: TFolder;
-        const folderFile = this.app.vault.getAbstractFileByPath(folderPath);
-        if (folderFile instanceof TFolder) {
-            folder = folderFile;
-        } else {
-            // Attempt to create the folder if it doesn't exist
             try {
-                folder = await this.app.vault.createFolder(folderPath);
-                new Notice(`Created output folder: ${folderPath}`);
+                const file = await this.app.vault.create(filePath, content);
+                if (!output.silent) {
+                    new Notice(`Filled template saved to ${filePath}`);
+                }
+                return file;
             } catch (error) {
-                console.error('Failed to create output folder:', error);
-                new Notice('Failed to create output folder.');
+                console.error('Failed to create filled template file:', error);
+                new Notice('Failed to save filled template.');
                 throw error;
             }
-        }
+        });
+    }
 
-        // Generate a unique file name, e.g., template name with timestamp
-        const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
-        const fileName = `${template.name}-${timestamp}.${this.templateExtension}`;
-        const filePath = `${folder.path}/${fileName}`;
-
-        // Check if file already exists (highly unlikely with timestamp)
-        const existingFile = this.app.vault.getAbstractFileByPath(filePath);
-        if (existingFile) {
-            new Notice(`File already exists: ${filePath}`);
-            throw new Error(`File already exists: ${filePath}`);
+    /**
+     * Creates a folder unless it exists, e.g. before several notes are written to it at once
+     * @param folderPath Folder path; empty for the vault root
+     * @returns A promise that resolves to the folder
+     */
+    async ensureFolder(folderPath: string): Promise<TFolder> {
+        return this.serialize(() => this.createFolderIfMissing(normalizePath(folderPath || '/')));
+    }
+
+    /**
+     * Runs a task after every earlier queued task has settled
+     * @private
+     */
+    private serialize<T>(task: () => Promise<T>): Promise<T> {
+        const result = this.writeQueue.then(task, task);
+        // A failed task must not block the ones after it
+        this.writeQueue = result.catch(() => undefined);
+        return result;
+    }
+
+    /**
+     * Only call from a serialized task
+     * @private
+     */
+    private async createFolderIfMissing(folderPath: string): Promise<TFolder> {
+        const folderFile = this.app.vault.getAbstractFileByPath(folderPath);
+        if (folderFile instanceof TFolder) {
+            return folderFile;
         }
 
         try {
-            await this.app.vault.create(filePath, content);
-            new Notice(`Filled template saved to ${filePath}`);
+            const folder = await this.app.vault.createFolder(folderPath);
+            new Notice(`Created output folder: ${folderPath}`);
+            return folder;
         } catch (error) {
-            console.error('Failed to create filled template file:', error);
-            new Notice('Failed to save filled template.');
+            console.error('Failed to create output folder:', error);
+            new Notice('Failed to create output folder.');
             throw error;
         }
     }
 
+    /**
+     * Inserts a filled result into an open editor as a single undoable change.
+     * The result's frontmatter is dropped, since it is inserted into an existing note.
+     * @param editor The editor to insert into
+     * @param content The filled content
+     * @param heading Heading whose section the content is appended to; when omitted,
+     * the content replaces the selection or is inserted at the cursor
+     * @throws If the heading is no longer in the note
+     */
+    insertIntoEditor(editor: Editor, content: string, heading?: Pick<TemplateSection, 'heading' | 'level'>): void {
+        const block = splitFrontmatter(content).body.trim();
+
+        if (!heading) {
+            editor.replaceSelection(block);
+            return;
+        }
+
+        // Headings are looked up again, as the note may have changed while generating
+        const sections = splitTemplateSections(editor.getValue());
+        const index = sections.findIndex(section => section.level === heading.level && section.heading === heading.heading);
+        if (index === -1) {
+            throw new Error(`Heading "${heading.heading}" not found in the note.`);
+        }
+
+        // The section ends where the next heading of the same or a higher level starts
+        let end = index + 1;
+        while (end < sections.length && sections[end].level > heading.level) {
+            end++;
+        }
+        const value = editor.getValue();
+        const offset = value.length - sections.slice(end).reduce((length, section) => length + section.content.length, 0);
+        const before = value.slice(0, offset);
+
+        const separator = before.endsWith('\n\n') ? '' : before.endsWith('\n') ? '\n' : '\n\n';
+        const trailing = end < sections.length ? '\n\n' : '\n';
+        const position = editor.offsetToPos(offset);
+        editor.transaction({ changes: [{ from: position, text: `${separator}${block}${trailing}` }] });
+        editor.setCursor(editor.offsetToPos(offset + separator.length + block.length));
+    }
+
     /**
      * Generates a unique file name based on template name and current timestamp
      * @param templateName The name of the template
@@ -75,31 +173,80 @@ export class FileService {
      */
     generateUniqueFileName(templateName: string): string {
         const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
-        return `${templateName}-${timestamp}.${this.templateExtension}`;
+        return `${templateName}-${timestamp}.${this.getExtension()}`;
     }
 
     /**
-     * Validates and retrieves the output folder, creating it if necessary
-     * @returns A promise that resolves to the TFolder object
+     * Expands a file name pattern such as "{{template}} {{date:YYYY-MM-DD}}".
+     * Token values are sanitized so they cannot add folders; slashes written
+     * in the pattern itself separate folders.
+     * @private
      */
-    async getOrCreateOutputFolder(): Promise<TFolder> {
-        const folderPath = this.outputPath || this.app.vault.getRoot().path;
-        let folder: TFolder;
-
-        const folderFile = this.app.vault.getAbstractFileByPath(folderPath);
-        if (folderFile instanceof TFolder) {
-            folder = folderFile;
-        } else {
-            try {
-                folder = await this.app.vault.createFolder(folderPath);
-                new Notice(`Created output folder: ${folderPath}`);
-            } catch (error) {
-                console.error('Failed to create output folder:', error);
-                new Notice('Failed to create output folder.');
-                throw error;
+    private renderFileName(pattern: string, template: Template, content: string, output: OutputOptions): string {
+        const name = pattern.replace(/\{\{\s*([^{}:]+?)\s*(?::([^{}]*))?\}\}/g, (match, token: string, argument?: string) => {
+            switch (token.toLowerCase()) {
+                case 'template':
+                    return this.sanitize(template.name);
+                case 'date':
+                    return this.sanitize(moment().format(argument || 'YYYY-MM-DD'));
+                case 'timestamp':
+                    return this.sanitize(new Date().toISOString());
+                case 'field':
+                    return this.sanitize(output.fieldValues?.[(argument || '').trim()] || '');
+                case 'title':
+                    return this.sanitize(output.title || this.getFirstHeading(content) || template.name);
+                default:
+                    return match;
             }
+        });
+
+        const segments = name
+            .split('/')
+            .map(segment => this.sanitize(segment))
+            .filter(Boolean);
+        return segments.join('/') || this.sanitize(template.name) || 'Untitled';
+    }
+
+    /**
+     * Replaces characters that are invalid in file names or break Obsidian links
+     * @private
+     */
+    private sanitize(value: string): string {
+        return value
+            .replace(/[\\/:*?"<>|#^[\]\x00-\x1f]/g, '-')
+            .replace(/\s+/g, ' ')
+            .replace(/^[.\s]+|[.\s]+$/g, '')
+            .slice(0, 120);
+    }
+
+    /**
+     * Finds a free path for a note, adding " 1", " 2"... on collisions
+     * @private
+     */
+    private getAvailablePath(folder: TFolder, baseName: string): string {
+        const prefix = folder.isRoot() ? '' : `${folder.path}/`;
+        const extension = this.getExtension();
+
+        let filePath = normalizePath(`${prefix}${baseName}.${extension}`);
+        for (let suffix = 1; this.app.vault.getAbstractFileByPath(filePath); suffix++) {
+            filePath = normalizePath(`${prefix}${baseName} ${suffix}.${extension}`);
         }
+        return filePath;
+    }
 
-        return folder;
+    private getFirstHeading(content: string): string {
+        return content.match(/^#\s+(.+)$/m)?.[1].trim() || '';
+    }
+
+    private getExtension(): string {
+        return this.settings.paths.templateExtension || 'md';
+    }
+
+    /**
+     * Validates and retrieves the output folder, creating it if necessary
+     * @returns A promise that resolves to the TFolder object
+     */
+    async getOrCreateOutputFolder(): Promise<TFolder> {
+        return this.ensureFolder(this.getOutputPath());
     }
 }
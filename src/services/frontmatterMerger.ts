@@ -0,0 +1,120 @@
+// src/services/frontmatterMerger.ts
+
+/**
+ * File: src/services/frontmatterMerger.ts
+ * Builds the frontmatter of generated notes from the template's and the model's
+ */
+
+import { moment } from 'obsidian';
+import { NoteProvenance } from '../types';
+import { FillerInnerSettings } from '../types/settings';
+import { PROVENANCE_KEYS } from '../utils/constants';
+import { joinFrontmatter, parseFrontmatter, splitFrontmatter } from '../utils/frontmatter';
+import { hashText } from '../utils/helpers';
+import { fillLiteralFields } from '../utils/templateFields';
+
+export class FrontmatterMerger {
+    private settings: FillerInnerSettings;
+
+    constructor(settings: FillerInnerSettings) {
+        // Processing options are read on each merge so changes in the settings tab apply right away
+        this.settings = settings;
+    }
+
+    /**
+     * Merge the template's frontmatter with the frontmatter the model produced.
+     * Template properties come first, in template order, with the model's values where it
+     * filled them in; properties the model added follow, then the provenance fields.
+     * @param templateContent The template the note was filled from
+     * @param filledContent The generated note
+     * @param fieldValues Values of the template's literal fields
+     * @param provenance Where the note came from
+     * @returns Promise<string> The note with its merged frontmatter
+     */
+    async merge(
+        templateContent: string,
+        filledContent: string,
+        fieldValues: Record<string, string>,
+        provenance: NoteProvenance
+    ): Promise<string> {
+        const { includeFrontmatter, inheritTemplateTags, addProvenance } = this.settings.processing;
+        const template = splitFrontmatter(templateContent);
+        const filled = splitFrontmatter(filledContent);
+
+        let templateProperties: Record<string, unknown>;
+        let generatedProperties: Record<string, unknown>;
+        try {
+            templateProperties = template.frontmatter !== null ? parseFrontmatter(template.frontmatter) : {};
+            generatedProperties = filled.frontmatter !== null ? parseFrontmatter(filled.frontmatter) : {};
+        } catch (error) {
+            console.warn('Could not parse frontmatter, saving the note as generated:', error);
+            return filledContent;
+        }
+
+        const properties: Record<string, unknown> = {};
+
+        if (includeFrontmatter) {
+            Object.entries(templateProperties).forEach(([key, value]) => {
+                properties[key] = key in generatedProperties
+                    ? generatedProperties[key]
+                    : this.fillValue(value, fieldValues);
+            });
+        }
+
+        // The model's copies of template properties are the template's YAML too
+        Object.entries(generatedProperties).forEach(([key, value]) => {
+            if (!(key in templateProperties)) {
+                properties[key] = value;
+            }
+        });
+
+        const templateTags = this.getTags(templateProperties.tags);
+        const noteTags = this.getTags(properties.tags);
+        const tags = inheritTemplateTags
+            ? Array.from(new Set([...templateTags, ...noteTags]))
+            : noteTags.filter(tag => !templateTags.includes(tag));
+        if (tags.length > 0) {
+            properties.tags = tags;
+        } else {
+            delete properties.tags;
+        }
+
+        if (addProvenance) {
+            properties[PROVENANCE_KEYS.template] = `[[${provenance.template.path.replace(/\.md$/, '')}]]`;
+            properties[PROVENANCE_KEYS.model] = `${provenance.model} (${provenance.provider})`;
+            properties[PROVENANCE_KEYS.generatedAt] = moment().format('YYYY-MM-DDTHH:mm:ss');
+            properties[PROVENANCE_KEYS.promptHash] = await hashText(provenance.prompt);
+        }
+
+        return joinFrontmatter(properties, filled.body);
+    }
+
+    /**
+     * Tags as a list without leading #s; unfilled placeholders are dropped
+     * @private
+     */
+    private getTags(value: unknown): string[] {
+        const tags = Array.isArray(value)
+            ? value
+            : typeof value === 'string' ? value.split(/[,\s]+/) : [];
+
+        return tags
+            .filter((tag): tag is string => typeof tag === 'string')
+            .map(tag => tag.trim().replace(/^#/, ''))
+            .filter(tag => tag && !tag.includes('{{'));
+    }
+
+    /**
+     * Substitute literal field values in a template property
+     * @private
+     */
+    private fillValue(value: unknown, fieldValues: Record<string, string>): unknown {
+        if (typeof value === 'string') {
+            return fillLiteralFields(value, fieldValues);
+        }
+        if (Array.isArray(value)) {
+            return value.map(item => this.fillValue(item, fieldValues));
+        }
+        return value;
+    }
+}
@@ -0,0 +1,282 @@
+// src/services/templateApplier.ts
+
+/**
+ * File: src/services/templateApplier.ts
+ * Applies a template to each note of a folder or search, using the note as the requirements
+ */
+
+import { App, TFile, TFolder, getAllTags } from 'obsidian';
+import { Template, TemplateConfig } from '../types';
+import { FillOptions } from '../types/aiModels';
+import { ApplyOutput, ApplyPlanItem, ApplyResult, ApplyScope } from '../types/batch';
+import { FillerInnerSettings } from '../types/settings';
+import { LLMService } from './ai/llmService';
+import { FileService } from './fileService';
+import { FrontmatterMerger } from './frontmatterMerger';
+import { TemplateManager } from './templateManager';
+import { PROVENANCE_KEYS } from '../utils/constants';
+import { splitFrontmatter } from '../utils/frontmatter';
+
+export class TemplateApplier {
+    private app: App;
+    private templateManager: TemplateManager;
+    private llmService: LLMService;
+    private fileService: FileService;
+    private settings: FillerInnerSettings;
+    private frontmatterMerger: FrontmatterMerger;
+
+    constructor(
+        app: App,
+        templateManager: TemplateManager,
+        llmService: LLMService,
+        fileService: FileService,
+        settings: FillerInnerSettings
+    ) {
+        this.app = app;
+        this.templateManager = templateManager;
+        this.llmService = llmService;
+        this.fileService = fileService;
+        this.settings = settings;
+        this.frontmatterMerger = new FrontmatterMerger(settings);
+    }
+
+    /**
+     * Find the notes in scope, leaving out templates
+     * @param scope Folder, search and age filters
+     * @returns Promise<TFile[]> The notes, sorted by path
+     */
+    async findNotes(scope: ApplyScope): Promise<TFile[]> {
+        const prefix = scope.folder ? `${scope.folder.replace(/\/$/, '')}/` : '';
+        const since = scope.modifiedWithinDays ? Date.now() - scope.modifiedWithinDays * 24 * 60 * 60 * 1000 : 0;
+        const terms = (scope.query || '').toLowerCase().split(/\s+/).filter(Boolean);
+
+        const candidates = this.app.vault.getMarkdownFiles()
+            .filter(file => !prefix || prefix === '/' || file.path.startsWith(prefix))
+            .filter(file => file.stat.mtime >= since)
+            .filter(file => !this.templateManager.hasTemplate(file.path));
+
+        const matches: TFile[] = [];
+        for (const file of candidates) {
+            if (terms.length === 0 || await this.matchesQuery(file, terms)) {
+                matches.push(file);
+            }
+        }
+        return matches.sort((a, b) => a.path.localeCompare(b.path));
+    }
+
+    /**
+     * Decide which notes to process. Notes generated by the plugin and notes the
+     * template was already applied to are skipped, going by their provenance properties.
+     * @returns ApplyPlanItem[] Every note, with a reason when it is skipped
+     */
+    plan(template: Template, files: TFile[]): ApplyPlanItem[] {
+        const templateLink = this.getTemplateLink(template);
+
+        return files.map(file => {
+            const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter || {};
+            if (frontmatter[PROVENANCE_KEYS.template]) {
+                return { file, skipReason: 'generated by a template' };
+            }
+            if (this.getAppliedTemplates(frontmatter).includes(templateLink)) {
+                return { file, skipReason: 'already processed with this template' };
+            }
+            return { file };
+        });
+    }
+
+    /**
+     * Estimate the cost of applying the template to the given notes
+     * @returns Promise<number> Estimated cost in USD (0 when pricing is unknown)
+     */
+    async estimateCost(template: Template, files: TFile[], instructions: string): Promise<number> {
+        const templateContent = await this.templateManager.loadTemplate(template.path);
+        const config = await this.templateManager.getTemplateConfig(template.path);
+
+        let cost = 0;
+        for (const file of files) {
+            const prompt = this.buildPrompt(instructions, file, await this.app.vault.cachedRead(file));
+            cost += this.llmService.estimateFill(templateContent, prompt, {
+                template: template.name,
+                systemPrompt: config.systemPrompt,
+                overrides: config
+            }).cost;
+        }
+        return cost;
+    }
+
+    /**
+     * Fill the template for each note in turn, then mark the note as processed
+     * @param template The template to apply
+     * @param files The notes to process; skipping is decided beforehand with plan()
+     * @param output Whether to create a sibling note or append to the source
+     * @param instructions Added to every note's prompt
+     * @param onResult Called after each note
+     * @param signal Stops after the current note; its result is discarded
+     * @returns Promise<ApplyResult[]> The result of every note, pending ones included when stopped
+     */
+    async apply(
+        template: Template,
+        files: TFile[],
+        output: ApplyOutput,
+        instructions: string,
+        onResult: (result: ApplyResult, index: number) => void,
+        signal: AbortSignal
+    ): Promise<ApplyResult[]> {
+        const templateContent = await this.templateManager.loadTemplate(template.path);
+        const config = await this.templateManager.getTemplateConfig(template.path);
+        const results: ApplyResult[] = files.map(file => ({ file, status: 'pending' }));
+
+        for (let index = 0; index < files.length && !signal.aborted; index++) {
+            const file = files[index];
+            try {
+                const source = await this.app.vault.read(file);
+                const prompt = this.buildPrompt(instructions, file, source);
+                const fillOptions: FillOptions = {
+                    template: template.name,
+                    systemPrompt: config.systemPrompt,
+                    overrides: config,
+                    signal
+                };
+
+                let content = await this.llmService.generateFilledTemplate(templateContent, prompt, fillOptions);
+                let message: string | undefined;
+                if (this.settings.processing.checkStructure) {
+                    const checked = await this.llmService.enforceStructure(
+                        templateContent,
+                        content,
+                        fillOptions,
+                        this.settings.processing.structureRepairAttempts
+                    );
+                    content = checked.content;
+                    message = checked.issues.length > 0 ? checked.issues.map(issue => issue.message).join('; ') : undefined;
+                }
+                if (signal.aborted) {
+                    break;
+                }
+
+                const notePath = output === 'append'
+                    ? await this.appendToNote(file, content)
+                    : await this.createSibling(template, file, templateContent, content, prompt, config);
+                await this.markProcessed(file, template);
+
+                results[index] = { file, status: 'done', notePath, message };
+            } catch (error: any) {
+                if (signal.aborted) {
+                    break;
+                }
+                console.error(`[TemplateApplier] Failed on ${file.path}:`, error);
+                results[index] = { file, status: 'failed', message: error?.message || String(error) };
+            }
+            onResult(results[index], index);
+        }
+
+        return results;
+    }
+
+    /**
+     * Save the result as a new note in the source note's folder, named after both
+     * @private
+     */
+    private async createSibling(
+        template: Template,
+        file: TFile,
+        templateContent: string,
+        content: string,
+        prompt: string,
+        config: TemplateConfig
+    ): Promise<string> {
+        const resolved = this.llmService.resolveConfig(config);
+        const note = await this.frontmatterMerger.merge(templateContent, content, {}, {
+            template,
+            provider: resolved.provider,
+            model: resolved.model,
+            prompt
+        });
+
+        const created = await this.fileService.createFilledFile(template, note, {
+            outputFolder: file.parent?.path || '/',
+            // Literal text in the pattern is kept; the source name only has to be safe as a single segment
+            filenamePattern: `${file.basename.replace(/[{}/]/g, '-')} - {{template}}`,
+            silent: true
+        });
+        // The new note sits among the sources, so a later run must not pick it up, even with provenance off
+        await this.markProcessed(created, template);
+        return created.path;
+    }
+
+    /**
+     * Append the result's body to the end of the source note
+     * @private
+     */
+    private async appendToNote(file: TFile, content: string): Promise<string> {
+        const body = splitFrontmatter(content).body.trim();
+        await this.app.vault.process(file, current => `${current.replace(/\s*$/, '')}\n\n${body}\n`);
+        return file.path;
+    }
+
+    /**
+     * Record the template in the source note's frontmatter so later runs skip it.
+     * Written even when provenance is off, since skipping depends on it.
+     * @private
+     */
+    private async markProcessed(file: TFile, template: Template): Promise<void> {
+        const link = this.getTemplateLink(template);
+        await this.app.fileManager.processFrontMatter(file, frontmatter => {
+            const applied = this.getAppliedTemplates(frontmatter);
+            if (!applied.includes(link)) {
+                frontmatter[PROVENANCE_KEYS.appliedTemplates] = [...applied, link];
+            }
+        });
+    }
+
+    private getAppliedTemplates(frontmatter: Record<string, any>): string[] {
+        const value = frontmatter[PROVENANCE_KEYS.appliedTemplates];
+        const list = Array.isArray(value) ? value : value ? [value] : [];
+        return list.map(item => String(item));
+    }
+
+    private getTemplateLink(template: Template): string {
+        return `[[${template.path.replace(/\.md$/, '')}]]`;
+    }
+
+    /**
+     * Whether a note contains every search term; "tag:" and "path:" terms match its tags and path
+     * @private
+     */
+    private async matchesQuery(file: TFile, terms: string[]): Promise<boolean> {
+        const cache = this.app.metadataCache.getFileCache(file);
+        const tags = (cache ? getAllTags(cache) || [] : []).map(tag => tag.toLowerCase());
+        let content: string | null = null;
+
+        for (const term of terms) {
+            if (term.startsWith('tag:')) {
+                const tag = `#${term.slice(4).replace(/^#/, '')}`;
+                if (!tags.some(noteTag => noteTag === tag || noteTag.startsWith(`${tag}/`))) {
+                    return false;
+                }
+            } else if (term.startsWith('path:')) {
+                if (!file.path.toLowerCase().includes(term.slice(5))) {
+                    return false;
+                }
+            } else {
+                content = content ?? (await this.app.vault.cachedRead(file)).toLowerCase();
+                if (!file.basename.toLowerCase().includes(term) && !content.includes(term)) {
+                    return false;
+                }
+            }
+        }
+        return true;
+    }
+
+    /**
+     * The user's instructions followed by the note as the requirements
+     * @private
+     */
+    private buildPrompt(instructions: string, file: TFile, content: string): string {
+        const note = splitFrontmatter(content).body.trim();
+        return [
+            instructions.trim(),
+            `Fill the template from this note, "${file.basename}":\n---BEGIN NOTE---\n${note}\n---END NOTE---`
+        ].filter(Boolean).join('\n\n');
+    }
+}
@@ -3,21 +3,50 @@
  * Manages template discovery, loading, and caching
  */
 
-import { App, TFile, TFolder, normalizePath } from 'obsidian';
-import { Template, TemplateError, isTemplate } from '../types';
+import { App, CachedMetadata, Component, TAbstractFile, TFile, TFolder, getAllTags, normalizePath } from 'obsidian';
+import { Template, TemplateConfig, TemplateError, TemplateField, isTemplate } from '../types';
+import { AIProvider } from '../types/aiModels';
+import { FillerInnerSettings } from '../types/settings';
+import { TEMPLATE_CONFIG_KEY } from '../utils/constants';
+import { removeFrontmatterKey } from '../utils/frontmatter';
+import { matchesAnyGlob } from '../utils/glob';
+import { parseTemplateFields } from '../utils/templateFields';
 
-export class TemplateManager {
+/**
+ * Keeps an index of the vault's templates, updated from vault and metadata cache
+ * events. Add it as a child of the plugin so its event handlers are registered
+ * on load and removed on unload.
+ */
+export class TemplateManager extends Component {
     private app: App;
-    private templatesPath: string;
+    private settings: FillerInnerSettings;
     private templateCache: Map<string, Template>;
-    private lastScanTime: number;
-    private scanInterval: number = 5000; // 5 seconds
+    private folders: string[] = [];
+    private ready: Promise<void> = Promise.resolve();
+    // Incremented on each full rebuild so updates from an older rebuild are dropped
+    private indexVersion: number = 0;
 
-    constructor(app: App, templatesPath: string) {
+    constructor(app: App, settings: FillerInnerSettings) {
+        super();
         this.app = app;
-        this.templatesPath = normalizePath(templatesPath);
+        // Folders and filters are read on each rebuild so changes in the settings tab apply right away
+        this.settings = settings;
         this.templateCache = new Map();
-        this.lastScanTime = 0;
+    }
+
+    onload() {
+        // Metadata is only complete once the layout is ready; before that, the vault
+        // sends a create event for every existing file, which the full rebuild covers
+        this.app.workspace.onLayoutReady(() => {
+            this.ready = this.rebuildIndex();
+
+            this.registerEvent(this.app.vault.on('create', file => this.handleFileChange(file)));
+            this.registerEvent(this.app.vault.on('modify', file => this.handleFileChange(file)));
+            this.registerEvent(this.app.vault.on('delete', file => this.handleDelete(file)));
+            this.registerEvent(this.app.vault.on('rename', (file, oldPath) => this.handleRename(file, oldPath)));
+            // Tags and frontmatter flags are only known after the metadata cache has parsed the file
+            this.registerEvent(this.app.metadataCache.on('changed', file => this.handleFileChange(file)));
+        });
     }
 
     /**
@@ -27,7 +56,7 @@ export class TemplateManager {
      * @throws {TemplateError} If template not found
      */
     async getTemplate(path: string): Promise<Template> {
-        await this.updateTemplatesCacheIfNeeded();
+        await this.ready;
         const template = this.templateCache.get(path);
         
         if (!template) {
@@ -38,7 +67,16 @@ export class TemplateManager {
     }
 
     /**
-     * Load template content
+     * Whether a note is in the template index
+     * @param path Note path
+     * @returns boolean True when the note is a template
+     */
+    hasTemplate(path: string): boolean {
+        return this.templateCache.has(path);
+    }
+
+    /**
+     * Load template content, without the plugin's own frontmatter configuration
      * @param path Template path
      * @returns Promise<string> Template content
      * @throws {TemplateError} If loading fails
@@ -46,8 +84,9 @@ export class TemplateManager {
     async loadTemplate(path: string): Promise<string> {
         try {
             const template = await this.getTemplate(path);
-            const content = await this.app.vault.read(template.file);
-            return this.validateTemplateContent(content);
+            const content = await this.loadNote(template.file);
+            // The configuration is for the plugin, not something the model should copy
+            return this.validateTemplateContent(removeFrontmatterKey(content, TEMPLATE_CONFIG_KEY));
         } catch (error) {
             console.error('Failed to load template:', error);
             throw new Error(TemplateError.INVALID_CONTENT);
@@ -55,76 +94,189 @@ export class TemplateManager {
     }
 
     /**
-     * Update templates cache if needed
-     * @private
+     * Load the content of any note in the vault, template or not
+     * @param file The note
+     * @returns Promise<string> Note content
+     * @throws {TemplateError} If the note is empty
      */
-    private async updateTemplatesCacheIfNeeded(): Promise<void> {
-        const now = Date.now();
-        if (now - this.lastScanTime > this.scanInterval) {
-            await this.scanTemplates();
-            this.lastScanTime = now;
-        }
+    async loadNote(file: TFile): Promise<string> {
+        const content = await this.app.vault.read(file);
+        return this.validateTemplateContent(content);
     }
 
     /**
-     * Scan for templates and update cache
+     * Rebuild the whole index, e.g. after the discovery settings changed
      * @private
      */
-    private async scanTemplates(): Promise<void> {
+    private async rebuildIndex(): Promise<void> {
+        const version = ++this.indexVersion;
+
         try {
-            // Get templates folder
-            const templatesFolder = this.app.vault.getAbstractFileByPath(
-                this.templatesPath
-            );
+            const folders = await this.getTemplateFolders();
+            const templates = new Map<string, Template>();
+
+            for (const file of this.app.vault.getMarkdownFiles()) {
+                if (this.isValidTemplate(file, folders)) {
+                    const template = await this.createTemplate(file);
+                    templates.set(template.path, template);
+                }
+            }
 
-            if (!(templatesFolder instanceof TFolder)) {
-                console.warn('Templates folder not found:', this.templatesPath);
+            // A newer rebuild started meanwhile
+            if (version !== this.indexVersion) {
                 return;
             }
 
-            // Track current templates for cleanup
-            const currentTemplates = new Set<string>();
+            this.folders = folders;
+            this.templateCache = templates;
+        } catch (error) {
+            // Keep serving the previous index; lookups must not fail because a rebuild did
+            console.error('Failed to scan templates:', error);
+        }
+    }
+
+    /**
+     * Add, update or remove a single file's index entry
+     * @private
+     */
+    private async indexFile(file: TFile): Promise<void> {
+        const version = this.indexVersion;
 
-            // Recursively scan for templates
-            await this.scanFolder(templatesFolder, currentTemplates);
+        try {
+            await this.ready;
+            if (!this.isValidTemplate(file, this.folders)) {
+                this.templateCache.delete(file.path);
+                return;
+            }
 
-            // Cleanup removed templates
-            for (const [path] of this.templateCache) {
-                if (!currentTemplates.has(path)) {
-                    this.templateCache.delete(path);
-                }
+            const template = await this.createTemplate(file);
+            // The file may have been renamed or deleted, or the index rebuilt, while it was read
+            if (version === this.indexVersion && this.app.vault.getAbstractFileByPath(file.path) === file) {
+                this.templateCache.set(template.path, template);
             }
         } catch (error) {
-            console.error('Failed to scan templates:', error);
-            throw new Error(TemplateError.FILE_SYSTEM_ERROR);
+            console.error(`Failed to index template ${file.path}:`, error);
+        }
+    }
+
+    private handleFileChange(file: TAbstractFile) {
+        if (file instanceof TFile && this.hasValidExtension(file)) {
+            // indexFile handles its own errors
+            void this.indexFile(file);
+        }
+    }
+
+    private handleDelete(file: TAbstractFile) {
+        if (file instanceof TFolder) {
+            this.removeEntries(path => path.startsWith(`${file.path}/`));
+        } else {
+            this.templateCache.delete(file.path);
+        }
+    }
+
+    private handleRename(file: TAbstractFile, oldPath: string) {
+        if (file instanceof TFolder) {
+            // A renamed template folder no longer matches the configured folders
+            this.removeEntries(path => path.startsWith(`${oldPath}/`));
+            this.ready = this.rebuildIndex();
+            return;
+        }
+
+        this.templateCache.delete(oldPath);
+        this.handleFileChange(file);
+    }
+
+    private removeEntries(predicate: (path: string) => boolean) {
+        for (const path of Array.from(this.templateCache.keys())) {
+            if (predicate(path)) {
+                this.templateCache.delete(path);
+            }
         }
     }
 
     /**
-     * Recursively scan folder for templates
+     * Folders searched for templates: the templates folder, the extra folders
+     * and, when enabled, the folders of the core Templates and Templater plugins
      * @private
      */
-    private async scanFolder(
-        folder: TFolder, 
-        currentTemplates: Set<string>
-    ): Promise<void> {
-        for (const child of folder.children) {
-            if (child instanceof TFile && this.isValidTemplate(child)) {
-                const template = await this.createTemplate(child);
-                currentTemplates.add(template.path);
-                this.templateCache.set(template.path, template);
-            } else if (child instanceof TFolder) {
-                await this.scanFolder(child, currentTemplates);
+    private async getTemplateFolders(): Promise<string[]> {
+        const { paths, discovery } = this.settings;
+        const folders = [paths.templatesPath, ...discovery.extraFolders];
+
+        if (discovery.useCoreTemplatesFolder) {
+            const options = await this.readConfigFile('templates.json');
+            folders.push(typeof options?.folder === 'string' ? options.folder : '');
+        }
+        if (discovery.useTemplaterFolder) {
+            const options = await this.readConfigFile('plugins/templater-obsidian/data.json');
+            folders.push(typeof options?.templates_folder === 'string' ? options.templates_folder : '');
+        }
+
+        return Array.from(new Set(folders
+            .map(folder => folder.trim())
+            .filter(Boolean)
+            .map(folder => normalizePath(folder))
+        ));
+    }
+
+    /**
+     * Read a JSON file from the vault's configuration folder
+     * @private
+     */
+    private async readConfigFile(path: string): Promise<Record<string, unknown> | null> {
+        const configPath = normalizePath(`${this.app.vault.configDir}/${path}`);
+        try {
+            if (!(await this.app.vault.adapter.exists(configPath))) {
+                return null;
             }
+            return JSON.parse(await this.app.vault.adapter.read(configPath));
+        } catch (error) {
+            console.warn(`Could not read ${configPath}:`, error);
+            return null;
         }
     }
 
     /**
-     * Check if file is a valid template
+     * Check if file is a valid template: inside a template folder, tagged with the
+     * template tag or flagged in its frontmatter, and allowed by the include and exclude patterns
      * @private
      */
-    private isValidTemplate(file: TFile): boolean {
-        return isTemplate(file) && this.hasValidExtension(file);
+    private isValidTemplate(file: TFile, folders: string[]): boolean {
+        const { include, exclude } = this.settings.discovery;
+
+        if (!this.hasValidExtension(file)) {
+            return false;
+        }
+        if (include.some(pattern => pattern.trim()) && !matchesAnyGlob(file.path, include)) {
+            return false;
+        }
+        if (matchesAnyGlob(file.path, exclude)) {
+            return false;
+        }
+
+        return isTemplate(file, folders) || this.isMarkedAsTemplate(file);
+    }
+
+    /**
+     * Check the template tag and the `template: true` flag in the plugin's frontmatter configuration
+     * @private
+     */
+    private isMarkedAsTemplate(file: TFile): boolean {
+        const cache = this.app.metadataCache.getFileCache(file);
+        if (!cache) {
+            return false;
+        }
+
+        const config = cache.frontmatter?.[TEMPLATE_CONFIG_KEY];
+        if (config && typeof config === 'object' && config.template === true) {
+            return true;
+        }
+
+        const templateTag = this.settings.discovery.templateTag.trim().replace(/^#/, '');
+        if (!templateTag) {
+            return false;
+        }
+        return (getAllTags(cache) || []).some(tag => tag.replace(/^#/, '').toLowerCase() === templateTag.toLowerCase());
     }
 
     /**
@@ -136,15 +288,21 @@ export class TemplateManager {
     }
 
     /**
-     * Create template object from file
+     * Create template object from file, with its parsed fields and configuration
      * @private
      */
     private async createTemplate(file: TFile): Promise<Template> {
+        const content = await this.app.vault.cachedRead(file);
+        const metadata = this.app.metadataCache.getFileCache(file);
+
         return {
             path: file.path,
             name: this.formatTemplateName(file.name),
             file: file,
-            mtime: file.stat.mtime
+            mtime: file.stat.mtime,
+            fields: parseTemplateFields(removeFrontmatterKey(content, TEMPLATE_CONFIG_KEY)),
+            description: this.readDescription(metadata),
+            config: this.parseTemplateConfig(metadata, file.path)
         };
     }
 
@@ -186,13 +344,94 @@ export class TemplateManager {
         return metadata?.frontmatter || {};
     }
 
+    /**
+     * Get the template's Filler Inner configuration from its frontmatter
+     * @param path Template path
+     * @returns Promise<TemplateConfig> Configuration values set by the template
+     */
+    async getTemplateConfig(path: string): Promise<TemplateConfig> {
+        const template = await this.getTemplate(path);
+        return template.config;
+    }
+
+    /**
+     * Read the configuration under TEMPLATE_CONFIG_KEY, ignoring invalid values
+     * @private
+     */
+    private parseTemplateConfig(metadata: CachedMetadata | null, path: string): TemplateConfig {
+        const config = metadata?.frontmatter?.[TEMPLATE_CONFIG_KEY];
+
+        if (!config || typeof config !== 'object') {
+            return {};
+        }
+
+        const values = config as Record<string, unknown>;
+        const provider = Object.values(AIProvider).find(p => p === values.provider);
+        if (values.provider !== undefined && !provider) {
+            console.warn(`Unknown provider "${values.provider}" in template ${path}`);
+        }
+
+        return {
+            provider: provider,
+            model: this.readString(values.model),
+            temperature: this.readNumber(values.temperature, 0, 1),
+            maxTokens: this.readNumber(values.maxTokens, 1),
+            systemPrompt: this.readString(values.systemPrompt),
+            outputFolder: this.readString(values.outputFolder),
+            filenamePattern: this.readString(values.filenamePattern),
+            fillBySection: typeof values.fillBySection === 'boolean' ? values.fillBySection : undefined
+        };
+    }
+
+    /**
+     * The description set under TEMPLATE_CONFIG_KEY, or the note's own description property
+     * @private
+     */
+    private readDescription(metadata: CachedMetadata | null): string {
+        const frontmatter = metadata?.frontmatter;
+        const config = frontmatter?.[TEMPLATE_CONFIG_KEY];
+        return this.readString(config && typeof config === 'object' ? config.description : undefined)
+            || this.readString(frontmatter?.description)
+            || '';
+    }
+
+    /**
+     * Read a non-empty string configuration value
+     * @private
+     */
+    private readString(value: unknown): string | undefined {
+        return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+    }
+
+    /**
+     * Read a numeric configuration value, clamped to the given range
+     * @private
+     */
+    private readNumber(value: unknown, min: number, max: number = Infinity): number | undefined {
+        const number = typeof value === 'string' ? parseFloat(value) : value;
+        if (typeof number !== 'number' || isNaN(number)) {
+            return undefined;
+        }
+        return Math.min(max, Math.max(min, number));
+    }
+
+    /**
+     * Get the placeholder fields of a template
+     * @param path Template path
+     * @returns Promise<TemplateField[]> Literal and AI fields in order of appearance
+     */
+    async getTemplateFields(path: string): Promise<TemplateField[]> {
+        const template = await this.getTemplate(path);
+        return template.fields;
+    }
+
     /**
      * Check if template exists
      * @param path Template path
      * @returns Promise<boolean>
      */
     async templateExists(path: string): Promise<boolean> {
-        await this.updateTemplatesCacheIfNeeded();
+        await this.ready;
         return this.templateCache.has(path);
     }
 
@@ -211,17 +450,15 @@ export class TemplateManager {
      * @param path New templates path
      */
     setTemplatesPath(path: string): void {
-        this.templatesPath = normalizePath(path);
-        this.templateCache.clear();
-        this.lastScanTime = 0;
+        this.settings.paths.templatesPath = path;
+        this.clearCache();
     }
 
     /**
-     * Clear template cache
+     * Clear template cache and rebuild the index from the current settings
      */
     clearCache(): void {
-        this.templateCache.clear();
-        this.lastScanTime = 0;
+        this.ready = this.rebuildIndex();
     }
 
     /**
@@ -229,7 +466,7 @@ export class TemplateManager {
      * @returns Promise<Template[]> Array of available templates
      */
     async getTemplates(): Promise<Template[]> {
-        await this.updateTemplatesCacheIfNeeded();
+        await this.ready;
         return Array.from(this.templateCache.values());
     }
-}
\ No newline at end of file
+}
@@ -0,0 +1,170 @@
+// src/services/usageLedger.ts
+
+/**
+ * File: src/services/usageLedger.ts
+ * Persistent ledger of LLM calls with token counts and estimated cost
+ */
+
+import { AIModelPricing } from '../types/aiModels';
+import { UsageConfig } from '../types/settings';
+import { BudgetCheck, UsageGrouping, UsageRecord, UsageTotals } from '../types/usage';
+
+export class UsageLedger {
+    private records: UsageRecord[];
+    private config: UsageConfig;
+    private persist: () => Promise<void>;
+    private getPricing: (provider: string, model: string) => AIModelPricing | undefined;
+    private listeners: Set<() => void> = new Set();
+
+    /**
+     * @param records Records loaded from the plugin data
+     * @param config Usage settings holding the monthly budget
+     * @param persist Writes the plugin data after the ledger changes
+     * @param getPricing Looks up the pricing of a provider's model
+     */
+    constructor(
+        records: UsageRecord[],
+        config: UsageConfig,
+        persist: () => Promise<void>,
+        getPricing: (provider: string, model: string) => AIModelPricing | undefined
+    ) {
+        this.records = records;
+        this.config = config;
+        this.persist = persist;
+        this.getPricing = getPricing;
+    }
+
+    /**
+     * Record a finished call and save the ledger
+     * @param entry The call details; timestamp and cost are filled in
+     * @returns Promise<UsageRecord> The stored record
+     */
+    async record(entry: Omit<UsageRecord, 'timestamp' | 'cost'>): Promise<UsageRecord> {
+        const record: UsageRecord = {
+            ...entry,
+            timestamp: Date.now(),
+            cost: this.estimateCost(entry.provider, entry.model, entry.inputTokens, entry.outputTokens)
+        };
+
+        this.records.push(record);
+        await this.persist();
+        this.notify();
+        return record;
+    }
+
+    /**
+     * Estimate the cost of a call
+     * @param provider Provider serving the model
+     * @param model Model identifier
+     * @param inputTokens Prompt tokens
+     * @param outputTokens Completion tokens
+     * @returns number | undefined Cost in USD, or undefined when the model's pricing is unknown
+     */
+    estimateCost(provider: string, model: string, inputTokens: number, outputTokens: number): number | undefined {
+        const pricing = this.getPricing(provider, model);
+        if (!pricing) {
+            return undefined;
+        }
+        return (inputTokens * pricing.input + outputTokens * pricing.output) / 1e6;
+    }
+
+    /**
+     * Check whether a planned call would take this month's spending over the budget
+     * @param plannedCost Estimated cost of the planned call in USD
+     * @returns BudgetCheck Spending so far, projection and verdict
+     */
+    checkBudget(plannedCost: number): BudgetCheck {
+        const budget = this.config.monthlyBudget || 0;
+        const spent = this.getMonthToDateCost();
+        const projected = spent + plannedCost;
+        return {
+            spent,
+            projected,
+            budget,
+            exceeded: budget > 0 && projected > budget
+        };
+    }
+
+    /**
+     * Total cost recorded since the start of the current month
+     * @returns number Cost in USD
+     */
+    getMonthToDateCost(): number {
+        const now = new Date();
+        const monthStart = new Date(now.getFullYear(), now.getMonth(), 1).getTime();
+        return this.records
+            .filter(record => record.timestamp >= monthStart)
+            .reduce((sum, record) => sum + (record.cost || 0), 0);
+    }
+
+    /**
+     * Aggregate the ledger by day, template or model
+     * @param grouping What to group by
+     * @returns Map<string, UsageTotals> Totals keyed by group, most recent or most expensive first
+     */
+    getTotals(grouping: UsageGrouping): Map<string, UsageTotals> {
+        const totals = new Map<string, UsageTotals>();
+
+        for (const record of this.records) {
+            const key = this.getGroupKey(record, grouping);
+            const entry = totals.get(key) || { calls: 0, inputTokens: 0, outputTokens: 0, cost: 0 };
+            entry.calls += 1;
+            entry.inputTokens += record.inputTokens;
+            entry.outputTokens += record.outputTokens;
+            entry.cost += record.cost || 0;
+            totals.set(key, entry);
+        }
+
+        // Days read best newest first; templates and models by what they cost
+        const sorted = Array.from(totals.entries()).sort(([keyA, a], [keyB, b]) =>
+            grouping === 'day' ? keyB.localeCompare(keyA) : b.cost - a.cost
+        );
+        return new Map(sorted);
+    }
+
+    /**
+     * Get all records, oldest first
+     * @returns UsageRecord[] The stored records
+     */
+    getRecords(): UsageRecord[] {
+        return this.records;
+    }
+
+    /**
+     * Remove all records and save the ledger
+     */
+    async clear(): Promise<void> {
+        this.records.length = 0;
+        await this.persist();
+        this.notify();
+    }
+
+    /**
+     * Subscribe to ledger changes
+     * @param listener Called after records are added or cleared
+     * @returns () => void Unsubscribes the listener
+     */
+    onChange(listener: () => void): () => void {
+        this.listeners.add(listener);
+        return () => this.listeners.delete(listener);
+    }
+
+    private notify(): void {
+        this.listeners.forEach(listener => listener());
+    }
+
+    private getGroupKey(record: UsageRecord, grouping: UsageGrouping): string {
+        switch (grouping) {
+            case 'day': {
+                const date = new Date(record.timestamp);
+                const month = String(date.getMonth() + 1).padStart(2, '0');
+                const day = String(date.getDate()).padStart(2, '0');
+                return `${date.getFullYear()}-${month}-${day}`;
+            }
+            case 'template':
+                return record.template || '(no template)';
+            case 'model':
+                return `${record.model} (${record.provider})`;
+        }
+    }
+}
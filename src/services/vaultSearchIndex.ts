@@ -0,0 +1,169 @@
+// src/services/vaultSearchIndex.ts
+
+/**
+ * File: src/services/vaultSearchIndex.ts
+ * Offline lexical search over the vault's notes, for grounding fills in them
+ */
+
+import { App, Component, TAbstractFile, TFile, TFolder, debounce } from 'obsidian';
+import { SearchPassage } from '../types';
+import { Bm25Index } from '../utils/bm25';
+import { splitFrontmatter } from '../utils/frontmatter';
+import { splitTemplateSections } from '../utils/templateSections';
+
+// Sections longer than this are split at blank lines so one passage stays a focused excerpt
+const MAX_PASSAGE_LENGTH = 2000;
+
+/**
+ * Keeps a BM25 index of heading-sized passages of every Markdown note, updated
+ * from vault events. The index is built on the first search, so vaults that
+ * never use it pay nothing. Add it as a child of the plugin so its event
+ * handlers are registered on load and removed on unload.
+ */
+export class VaultSearchIndex extends Component {
+    private app: App;
+    private index: Bm25Index<SearchPassage> = new Bm25Index();
+    private building: Promise<void> | null = null;
+    // Incremented whenever the index is cleared so reads from an older build are dropped
+    private buildVersion: number = 0;
+    private pending: Set<string> = new Set();
+    private flushPending = debounce(() => this.reindexPending(), 1000, true);
+
+    constructor(app: App) {
+        super();
+        this.app = app;
+    }
+
+    onload() {
+        this.registerEvent(this.app.vault.on('create', file => this.queue(file)));
+        this.registerEvent(this.app.vault.on('modify', file => this.queue(file)));
+        this.registerEvent(this.app.vault.on('delete', file => this.remove(file, file.path)));
+        this.registerEvent(this.app.vault.on('rename', (file, oldPath) => {
+            this.remove(file, oldPath);
+            this.queue(file);
+        }));
+    }
+
+    onunload() {
+        this.buildVersion++;
+        this.index.clear();
+        this.pending.clear();
+        this.building = null;
+    }
+
+    /**
+     * Find the passages that best match a query
+     * @param query Free text, e.g. the user's prompt and the template
+     * @param limit Maximum number of passages
+     * @param filter Passages to consider; all when omitted
+     * @returns Promise<SearchPassage[]> The best matching passages, best first
+     */
+    async search(query: string, limit: number, filter?: (passage: SearchPassage) => boolean): Promise<SearchPassage[]> {
+        await this.ensureBuilt();
+        return this.index.search(query, limit, filter).map(({ value, score }) => ({ ...value, score }));
+    }
+
+    private ensureBuilt(): Promise<void> {
+        if (!this.building) {
+            this.building = this.build();
+        }
+        return this.building;
+    }
+
+    /**
+     * Index every Markdown note of the vault
+     * @private
+     */
+    private async build(): Promise<void> {
+        const version = this.buildVersion;
+        for (const file of this.app.vault.getMarkdownFiles()) {
+            // The index was cleared meanwhile; a newer build takes over
+            if (version !== this.buildVersion) {
+                return;
+            }
+            await this.indexFile(file, version);
+        }
+    }
+
+    private async indexFile(file: TFile, version: number): Promise<void> {
+        try {
+            const content = await this.app.vault.cachedRead(file);
+            // The file may have been renamed or deleted, or the index cleared, while it was read
+            if (version !== this.buildVersion || this.app.vault.getAbstractFileByPath(file.path) !== file) {
+                return;
+            }
+            this.index.set(file.path, this.splitPassages(file.path, content).map(passage => ({
+                value: passage,
+                text: `${passage.heading}\n${passage.content}`
+            })));
+        } catch (error) {
+            console.error(`Failed to index ${file.path} for search:`, error);
+        }
+    }
+
+    /**
+     * Heading sections of a note without its frontmatter, long ones split at blank lines
+     * @private
+     */
+    private splitPassages(path: string, content: string): SearchPassage[] {
+        const { body } = splitFrontmatter(content);
+        const passages: SearchPassage[] = [];
+
+        splitTemplateSections(body).forEach(section => {
+            let chunk = '';
+            for (const paragraph of section.content.split(/\n\s*\n/)) {
+                if (chunk && chunk.length + paragraph.length > MAX_PASSAGE_LENGTH) {
+                    passages.push({ path, heading: section.heading, content: chunk.trim(), score: 0 });
+                    chunk = '';
+                }
+                chunk += `${paragraph}\n\n`;
+            }
+            if (chunk.trim()) {
+                passages.push({ path, heading: section.heading, content: chunk.trim(), score: 0 });
+            }
+        });
+
+        return passages;
+    }
+
+    private queue(file: TAbstractFile) {
+        // Changes before the first search are picked up when the index is built
+        if (!this.building || !(file instanceof TFile) || file.extension !== 'md') {
+            return;
+        }
+        this.pending.add(file.path);
+        this.flushPending();
+    }
+
+    /**
+     * Re-read the notes changed since the last flush; edits arrive as a stream of modify events
+     * @private
+     */
+    private async reindexPending(): Promise<void> {
+        await this.building;
+        const version = this.buildVersion;
+        const paths = Array.from(this.pending);
+        this.pending.clear();
+
+        for (const path of paths) {
+            const file = this.app.vault.getAbstractFileByPath(path);
+            if (file instanceof TFile) {
+                await this.indexFile(file, version);
+            }
+        }
+    }
+
+    private remove(file: TAbstractFile, path: string) {
+        if (file instanceof TFolder) {
+            // Vault events are not sent for the notes inside a deleted or renamed folder;
+            // the next search rebuilds, and a build still running drops its results
+            this.buildVersion++;
+            this.building = null;
+            this.pending.clear();
+            this.index.clear();
+            return;
+        }
+        this.pending.delete(path);
+        this.index.delete(path);
+    }
+}
@@ -5,12 +5,32 @@
  * Type definitions related to AI models and responses
  */
 
+import { ContextNote } from './index';
+
 /**
  * Enum for supported AI providers
  */
 export enum AIProvider {
     OpenRouter = 'openrouter',
-    LMStudio = 'lmstudio'
+    LMStudio = 'lmstudio',
+    Anthropic = 'anthropic',
+    OpenAI = 'openai',
+    Gemini = 'gemini',
+    Groq = 'groq',
+    Perplexity = 'perplexity'
+}
+
+/**
+ * Role of a chat message
+ */
+export type AIMessageRole = 'system' | 'user' | 'assistant';
+
+/**
+ * A single chat message sent to the model
+ */
+export interface AIMessage {
+    role: AIMessageRole;
+    content: string;
 }
 
 /**
@@ -39,6 +59,56 @@ export interface AIResponse {
     data?: string;
     error?: string;
     tokens: AIResponseTokens;
+    /** Source URLs referenced by [n] markers in the response (search-backed providers only) */
+    citations?: string[];
+}
+
+/**
+ * Generation settings a template can override for its own fills
+ */
+export interface GenerationOverrides {
+    provider?: AIProvider;
+    model?: string;
+    temperature?: number;
+    maxTokens?: number;
+}
+
+/**
+ * Result of filling one section of a template
+ */
+export interface SectionFill {
+    /** Filled section content, with literal fields substituted */
+    content: string;
+    /** Citation URLs returned for this section, where citations[0] belongs to marker [1] */
+    citations: string[];
+}
+
+/**
+ * Options for a single template fill
+ */
+export interface FillOptions {
+    /** Name of the template being filled, recorded in the usage ledger */
+    template?: string;
+    /** Extra system instructions for this template, appended to the global system prompt */
+    systemPrompt?: string;
+    /** Values of the template's literal {{field}} placeholders, substituted exactly after generation */
+    fieldValues?: Record<string, string>;
+    /** Provider, model and sampling settings that replace the global ones for this fill */
+    overrides?: GenerationOverrides;
+    /** Vault notes the model should use as source material */
+    context?: ContextNote[];
+    /** Receives the generated text as it streams in */
+    onChunk?: (chunk: string) => void;
+    /** Stops generation early and keeps the partial text */
+    signal?: AbortSignal;
+}
+
+/**
+ * Model pricing in USD per million tokens
+ */
+export interface AIModelPricing {
+    input: number;
+    output: number;
 }
 
 /**
@@ -51,19 +121,54 @@ export interface AIModel {
     displayName: string;
     /** Provider of the model */
     provider: AIProvider;
-    /** Maximum tokens for the model */
+    /** Maximum tokens the model can generate in one response */
     maxTokens: number;
+    /** Context window in tokens, when known */
+    contextLength?: number;
+    /** Pricing, when known */
+    pricing?: AIModelPricing;
 }
 
 /**
- * Model information organized by provider
+ * Output limit assumed for models that do not report one
+ */
+export const DEFAULT_MAX_TOKENS = 4000;
+
+/**
+ * Curated model information organized by provider.
+ * Used until a provider's live catalog has been fetched, and to fill in
+ * context and pricing details that a provider's models endpoint leaves out.
  */
 export const AIModelMap: Record<AIProvider, AIModel[]> = {
     [AIProvider.OpenRouter]: [
-        { apiName: 'openai/gpt-4o-mini', displayName: 'GPT 4o Mini', provider: AIProvider.OpenRouter, maxTokens: 2048 },
-        { apiName: 'openai/gpt-4o', displayName: 'GPT-4o', provider: AIProvider.OpenRouter, maxTokens: 2048 }
+        { apiName: 'anthropic/claude-3.5-haiku', displayName: 'Claude 3.5 Haiku', provider: AIProvider.OpenRouter, maxTokens: 8192, contextLength: 200000, pricing: { input: 0.8, output: 4 } },
+        { apiName: 'openai/gpt-4o-mini', displayName: 'GPT 4o Mini', provider: AIProvider.OpenRouter, maxTokens: 16384, contextLength: 128000, pricing: { input: 0.15, output: 0.6 } },
+        { apiName: 'openai/gpt-4o', displayName: 'GPT-4o', provider: AIProvider.OpenRouter, maxTokens: 16384, contextLength: 128000, pricing: { input: 2.5, output: 10 } }
     ],
-    [AIProvider.LMStudio]: []
+    // LM Studio models are discovered from the local server at runtime
+    [AIProvider.LMStudio]: [],
+    [AIProvider.Anthropic]: [
+        { apiName: 'claude-3-5-haiku-latest', displayName: 'Claude 3.5 Haiku', provider: AIProvider.Anthropic, maxTokens: 8192, contextLength: 200000, pricing: { input: 0.8, output: 4 } },
+        { apiName: 'claude-3-5-sonnet-latest', displayName: 'Claude 3.5 Sonnet', provider: AIProvider.Anthropic, maxTokens: 8192, contextLength: 200000, pricing: { input: 3, output: 15 } }
+    ],
+    [AIProvider.OpenAI]: [
+        { apiName: 'gpt-4o-mini', displayName: 'GPT-4o Mini', provider: AIProvider.OpenAI, maxTokens: 16384, contextLength: 128000, pricing: { input: 0.15, output: 0.6 } },
+        { apiName: 'gpt-4o', displayName: 'GPT-4o', provider: AIProvider.OpenAI, maxTokens: 16384, contextLength: 128000, pricing: { input: 2.5, output: 10 } }
+    ],
+    [AIProvider.Gemini]: [
+        { apiName: 'gemini-1.5-flash', displayName: 'Gemini 1.5 Flash', provider: AIProvider.Gemini, maxTokens: 8192, contextLength: 1048576, pricing: { input: 0.075, output: 0.3 } },
+        { apiName: 'gemini-1.5-pro', displayName: 'Gemini 1.5 Pro', provider: AIProvider.Gemini, maxTokens: 8192, contextLength: 2097152, pricing: { input: 1.25, output: 5 } }
+    ],
+    [AIProvider.Groq]: [
+        { apiName: 'llama-3.1-8b-instant', displayName: 'Llama 3.1 8B Instant', provider: AIProvider.Groq, maxTokens: 8192, contextLength: 131072, pricing: { input: 0.05, output: 0.08 } },
+        { apiName: 'llama-3.3-70b-versatile', displayName: 'Llama 3.3 70B Versatile', provider: AIProvider.Groq, maxTokens: 32768, contextLength: 131072, pricing: { input: 0.59, output: 0.79 } },
+        { apiName: 'gemma2-9b-it', displayName: 'Gemma 2 9B', provider: AIProvider.Groq, maxTokens: 8192, contextLength: 8192, pricing: { input: 0.2, output: 0.2 } },
+        { apiName: 'mixtral-8x7b-32768', displayName: 'Mixtral 8x7B', provider: AIProvider.Groq, maxTokens: 32768, contextLength: 32768, pricing: { input: 0.24, output: 0.24 } }
+    ],
+    [AIProvider.Perplexity]: [
+        { apiName: 'sonar', displayName: 'Sonar', provider: AIProvider.Perplexity, maxTokens: 8192, contextLength: 127072, pricing: { input: 1, output: 1 } },
+        { apiName: 'sonar-pro', displayName: 'Sonar Pro', provider: AIProvider.Perplexity, maxTokens: 8192, contextLength: 200000, pricing: { input: 3, output: 15 } }
+    ]
 };
 
 /**
@@ -71,27 +176,33 @@ export const AIModelMap: Record<AIProvider, AIModel[]> = {
  */
 export const AIModelUtils = {
     /**
-     * Get models by provider
+     * Get the curated models of a provider
      */
     getModelsByProvider: (provider: AIProvider): AIModel[] => {
-        const models: Record<AIProvider, AIModel[]> = {
-            [AIProvider.OpenRouter]: [
-                {
-                    apiName: 'anthropic/claude-3.5-haiku',
-                    displayName: 'Claude 3.5 Haiku',
-                    maxTokens: 2048,
-                    provider: AIProvider.OpenRouter
-                }
-            ],
-            [AIProvider.LMStudio]: [
-                {
-                    apiName: 'default',
-                    displayName: 'Default Model',
-                    maxTokens: 2048,
-                    provider: AIProvider.LMStudio
-                }
-            ]
+        return AIModelMap[provider] || [];
+    },
+
+    /**
+     * Find a curated model by its API identifier
+     */
+    findModel: (provider: AIProvider, apiName: string): AIModel | undefined => {
+        return AIModelUtils.getModelsByProvider(provider).find(model => model.apiName === apiName);
+    },
+
+    /**
+     * Fill in output limit, context and pricing details missing from a
+     * fetched model with what the curated list knows about it
+     */
+    withKnownDetails: (model: AIModel): AIModel => {
+        const known = AIModelUtils.findModel(model.provider, model.apiName);
+        if (!known) {
+            return model;
+        }
+        return {
+            ...model,
+            maxTokens: model.maxTokens || known.maxTokens,
+            contextLength: model.contextLength ?? known.contextLength,
+            pricing: model.pricing ?? known.pricing
         };
-        return models[provider] || [];
     }
 };
@@ -0,0 +1,99 @@
+// src/types/batch.ts
+
+/**
+ * File: src/types/batch.ts
+ * Type definitions for filling a template once per row of a data file,
+ * or once per note of a folder or search
+ */
+
+import { TFile } from 'obsidian';
+
+/**
+ * Outcome of a single row; pending rows were not reached before the run stopped
+ */
+export type BatchRowStatus = 'pending' | 'done' | 'failed' | 'skipped';
+
+/**
+ * What happened to one row of a batch
+ */
+export interface BatchRowResult {
+    /** Position of the row in the data file, from 0 */
+    index: number;
+    status: BatchRowStatus;
+    /** Digest of the row's values, so a resumed run only skips rows that did not change */
+    rowHash: string;
+    /** Path of the created note */
+    notePath?: string;
+    /** Why the row failed, or structure problems of a saved note */
+    message?: string;
+}
+
+/**
+ * A batch run, saved after every row so it can be resumed after a failure
+ */
+export interface BatchRun {
+    templatePath: string;
+    sourcePath: string;
+    /** When the run was first started (ms since epoch) */
+    startedAt: number;
+    /** Results keyed by row index */
+    rows: Record<number, BatchRowResult>;
+}
+
+/**
+ * Counts reported while a batch runs
+ */
+export interface BatchProgress {
+    total: number;
+    done: number;
+    failed: number;
+    skipped: number;
+}
+
+/**
+ * Result of a finished or stopped batch
+ */
+export interface BatchSummary extends BatchProgress {
+    run: BatchRun;
+    /** The report note, when one was written */
+    report?: string;
+    /** Whether the run was stopped before every row was processed */
+    stopped: boolean;
+}
+
+/**
+ * Notes a template is applied to: a folder, a search, or both
+ */
+export interface ApplyScope {
+    /** Folder whose notes, including those in subfolders, are used */
+    folder?: string;
+    /** Words every note must contain; "tag:" and "path:" terms match tags and paths */
+    query?: string;
+    /** Only notes modified in this many days (0 for any time) */
+    modifiedWithinDays?: number;
+}
+
+/**
+ * Where the result for each note goes: a new note next to it, or the end of the note itself
+ */
+export type ApplyOutput = 'sibling' | 'append';
+
+/**
+ * A note in scope and, when it will be skipped, why
+ */
+export interface ApplyPlanItem {
+    file: TFile;
+    skipReason?: string;
+}
+
+/**
+ * What happened to one note
+ */
+export interface ApplyResult {
+    file: TFile;
+    status: BatchRowStatus;
+    /** Path of the created note, or of the source note the result was appended to */
+    notePath?: string;
+    /** Why the note was skipped or failed */
+    message?: string;
+}
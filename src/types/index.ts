@@ -1,4 +1,5 @@
-import { TFile } from 'obsidian';
+import { Editor, TFile } from 'obsidian';
+import { GenerationOverrides } from './aiModels';
 
 // src/types/index.ts
 
@@ -7,7 +8,161 @@ export interface Template {
   path: string;
   file: TFile;  // Add TFile property
   mtime: number;
-  // Add other properties if necessary
+  /** Placeholder fields, parsed when the template is indexed */
+  fields: TemplateField[];
+  /** Short description from the frontmatter; empty when there is none */
+  description: string;
+  /** Configuration from the frontmatter */
+  config: TemplateConfig;
+}
+
+/**
+ * Per-template configuration read from the template's frontmatter
+ * under the TEMPLATE_CONFIG_KEY namespace
+ */
+export interface TemplateConfig extends GenerationOverrides {
+  /** Extra system instructions appended to the global system prompt */
+  systemPrompt?: string;
+  /** Folder for notes filled from this template, instead of the global output folder */
+  outputFolder?: string;
+  /** File name pattern for notes filled from this template */
+  filenamePattern?: string;
+  /** Fill the template one heading section at a time by default */
+  fillBySection?: boolean;
+}
+
+/**
+ * A placeholder found in template content.
+ * `{{client}}` is a literal field, substituted exactly with the value the user enters;
+ * `{{ai: summarize the goals}}` is an AI field, filled by the LLM following the instruction.
+ */
+export interface TemplateField {
+  /** Placeholder as written in the template, e.g. "{{client}}" */
+  placeholder: string;
+  /** Field name for literal fields, instruction for AI fields */
+  name: string;
+  /** How the field is filled */
+  type: 'literal' | 'ai';
+}
+
+/**
+ * Where and under which name a filled note is saved
+ */
+export interface OutputOptions {
+  /** Folder set by the template, replacing the global output folder */
+  outputFolder?: string;
+  /** File name pattern set by the template, replacing the global pattern */
+  filenamePattern?: string;
+  /** Literal field values for {{field:name}} tokens */
+  fieldValues?: Record<string, string>;
+  /** Title for the {{title}} token */
+  title?: string;
+  /** Skip the notice for the saved note, e.g. for each note of a batch */
+  silent?: boolean;
+}
+
+/**
+ * What the user decided after reviewing a generated note
+ */
+export type ReviewDecision =
+  | { action: 'accept'; content: string }
+  | { action: 'regenerate'; overrides: GenerationOverrides; content: string }
+  | { action: 'discard' };
+
+/**
+ * A vault note given to the model as source material
+ */
+export interface ContextNote {
+  /** Vault path of the note */
+  path: string;
+  /** Heading of the passage, when only part of the note is given */
+  heading?: string;
+  /** Note content, possibly cut short to fit the context budget */
+  content: string;
+}
+
+/**
+ * A heading-sized passage of a note found by the vault search
+ */
+export interface SearchPassage {
+  /** Vault path of the note */
+  path: string;
+  /** Heading the passage falls under; empty before the first heading */
+  heading: string;
+  /** Passage text */
+  content: string;
+  /** Relevance to the query; higher is better */
+  score: number;
+}
+
+/**
+ * An unfilled part of an existing note
+ */
+export interface NoteBlank {
+  /** Number shown to the model, starting at 1 */
+  id: number;
+  /** A heading with nothing under it, a TODO or {{...}} marker, or an empty frontmatter value */
+  kind: 'heading' | 'marker' | 'frontmatter';
+  /** Short description for the model, e.g. the heading or the marker text */
+  label: string;
+  /** Offset where the filled value goes */
+  start: number;
+  /** Offset where the replaced text ends; equals start when nothing is replaced */
+  end: number;
+  /** Text the value replaces */
+  original: string;
+}
+
+/**
+ * Where a filled result goes: a new note, the cursor or selection of an editor,
+ * or the end of a heading's section in an editor
+ */
+export type OutputMode = 'file' | 'cursor' | 'heading';
+
+/**
+ * An open Markdown editor that filled results can be inserted into
+ */
+export interface EditorTarget {
+  editor: Editor;
+  /** The note shown in the editor */
+  file: TFile | null;
+}
+
+/**
+ * Where a generated note came from, recorded in its frontmatter
+ */
+export interface NoteProvenance {
+  /** The template the note was filled from */
+  template: Template;
+  /** Provider that generated the note */
+  provider: string;
+  /** Model that generated the note */
+  model: string;
+  /** Prompt the note was generated from; only its hash is stored */
+  prompt: string;
+}
+
+/**
+ * A difference between a template's structure and a note filled from it
+ */
+export interface StructureIssue {
+  /** Which part of the structure differs */
+  kind: 'heading' | 'frontmatter' | 'table' | 'list';
+  /** Human-readable description, also sent to the model when repairing */
+  message: string;
+}
+
+/**
+ * A part of a template that starts at a Markdown heading.
+ * Text before the first heading, such as frontmatter, forms a section without a heading.
+ */
+export interface TemplateSection {
+  /** Heading text without the leading #s; empty for the text before the first heading */
+  heading: string;
+  /** Heading level 1-6; 0 for the text before the first heading */
+  level: number;
+  /** Section content, including its heading line */
+  content: string;
 }
 
 export enum TemplateError {
@@ -18,8 +173,15 @@ export enum TemplateError {
   FILE_SYSTEM_ERROR = 'File system error'
 }
 
-export function isTemplate(file: TFile): boolean {
-  return file.extension === 'md' && file.path.startsWith('templates/');
+/**
+ * Whether a file is a Markdown note inside one of the template folders
+ * @param file The file to check
+ * @param folders Normalized template folder paths; "/" is the vault root
+ */
+export function isTemplate(file: TFile, folders: string[]): boolean {
+  return file.extension === 'md' && folders.some(folder =>
+    folder === '/' || file.path.startsWith(`${folder}/`)
+  );
 }
 
 // Remove duplicate interfaces since they are already defined in settings.ts
@@ -1,5 +1,3 @@
-import { AIProvider } from './aiModels';
-
 // src/types/settings.ts
 
 /**
@@ -10,13 +8,29 @@ import { AIProvider } from './aiModels';
 
 /**
  * Supported LLM providers
+ * Values mirror AIProvider so the two enums can be used interchangeably
  */
 export enum LLMProvider {
-  OpenRouter = AIProvider.OpenRouter,
-  LMStudio = AIProvider.LMStudio,
+  OpenRouter = 'openrouter',
+  LMStudio = 'lmstudio',
+  Anthropic = 'anthropic',
+  OpenAI = 'openai',
+  Gemini = 'gemini',
+  Groq = 'groq',
+  Perplexity = 'perplexity',
   // Add more providers as needed
 }
 
+/**
+ * Default system prompt holding the structure-preservation rules
+ */
+export const DEFAULT_SYSTEM_PROMPT = [
+  'You fill in Markdown templates for an Obsidian vault.',
+  'Preserve the template exactly: keep every heading, its level and order, every frontmatter key, and every list and table structure.',
+  'Replace placeholder and empty content with material based on the user\'s requirements. Do not add, rename or remove sections.',
+  'Reply with the filled template only, without code fences or commentary.'
+].join('\n');
+
 /**
 * LLM-specific configuration
 */
@@ -25,6 +39,8 @@ export interface LLMConfig {
   provider: LLMProvider;
   /** API key for the selected provider */
   apiKey?: string;
+  /** API keys saved per provider, used when a template switches provider */
+  apiKeys?: Partial<Record<LLMProvider, string>>;
   /** API endpoint URL (optional, for custom endpoints) */
   apiUrl?: string;
   /** Model name/identifier */
@@ -33,6 +49,12 @@ export interface LLMConfig {
   temperature: number;
   /** Maximum tokens to generate */
   maxTokens: number;
+  /** System prompt sent with every fill (templates can add their own) */
+  systemPrompt: string;
+  /** Host of the local LM Studio server */
+  lmStudioHost?: string;
+  /** Port of the local LM Studio server */
+  lmStudioPort?: number;
 }
 
 /**
@@ -45,6 +67,26 @@ export interface PathConfig {
   outputPath: string;
   /** Template file extension (default: 'md') */
   templateExtension: string;
+  /** File name pattern for filled notes, e.g. "{{template}} {{date:YYYY-MM-DD}}" */
+  filenamePattern: string;
+}
+
+/**
+* Template discovery configuration
+*/
+export interface DiscoveryConfig {
+  /** Folders searched for templates besides the templates folder */
+  extraFolders: string[];
+  /** Notes with this tag are templates wherever they are (empty disables) */
+  templateTag: string;
+  /** Whether to search the folder of Obsidian's core Templates plugin */
+  useCoreTemplatesFolder: boolean;
+  /** Whether to search the folder of the Templater plugin */
+  useTemplaterFolder: boolean;
+  /** Glob patterns templates must match (empty allows all) */
+  include: string[];
+  /** Glob patterns of notes that are never templates */
+  exclude: string[];
 }
 
 /**
@@ -59,6 +101,26 @@ export interface ProcessingConfig {
   includeFrontmatter: boolean;
   /** Whether to inherit template tags */
   inheritTemplateTags: boolean;
+  /** Whether to record the source template, model, time and prompt hash in generated notes */
+  addProvenance: boolean;
+  /** Maximum estimated tokens of attached notes sent with a fill (0 for no limit) */
+  contextTokenBudget: number;
+  /** Passages found by searching the vault to add as context (0 disables the search) */
+  vaultSearchResults: number;
+  /** Rows of a batch filled at the same time */
+  batchConcurrency: number;
+  /** Whether to compare filled notes with the template's structure before saving */
+  checkStructure: boolean;
+  /** How many times to ask the model to repair a note that lost the template's structure */
+  structureRepairAttempts: number;
+}
+
+/**
+* Usage tracking configuration
+*/
+export interface UsageConfig {
+  /** Monthly spending limit in USD (0 disables the budget warning) */
+  monthlyBudget: number;
 }
 
 /**
@@ -69,8 +131,12 @@ export interface FillerInnerSettings {
   llm: LLMConfig;
   /** Path configuration */
   paths: PathConfig;
+  /** Template discovery configuration */
+  discovery: DiscoveryConfig;
   /** Processing configuration */
   processing: ProcessingConfig;
+  /** Usage tracking configuration */
+  usage: UsageConfig;
   /** Whether to show the ribbon icon */
   showRibbonIcon: boolean;
   /** Default command hotkey */
@@ -85,18 +151,39 @@ export const DEFAULT_SETTINGS: FillerInnerSettings = {
       provider: LLMProvider.OpenRouter,
       model: 'anthropic/claude-3.5-haiku', // Default model for OpenRouter
       temperature: 0.7,
-      maxTokens: 2048
+      maxTokens: 2048,
+      systemPrompt: DEFAULT_SYSTEM_PROMPT,
+      lmStudioHost: 'localhost',
+      lmStudioPort: 1234
   },
   paths: {
       templatesPath: 'templates',
       outputPath: '',
-      templateExtension: 'md'
+      templateExtension: 'md',
+      filenamePattern: '{{template}} {{date:YYYY-MM-DD}}'
+  },
+  discovery: {
+      extraFolders: [],
+      templateTag: '',
+      useCoreTemplatesFolder: false,
+      useTemplaterFolder: false,
+      include: [],
+      exclude: []
   },
   processing: {
       usePromptOptimization: true,
       defaultPromptTemplate: 'Please fill out this template based on the following requirements:\n\n',
       includeFrontmatter: true,
-      inheritTemplateTags: true
+      inheritTemplateTags: true,
+      addProvenance: true,
+      contextTokenBudget: 8000,
+      vaultSearchResults: 5,
+      batchConcurrency: 3,
+      checkStructure: true,
+      structureRepairAttempts: 1
+  },
+  usage: {
+      monthlyBudget: 0
   },
   showRibbonIcon: true
 };
@@ -0,0 +1,57 @@
+// src/types/usage.ts
+
+/**
+ * File: src/types/usage.ts
+ * Type definitions for the token usage and cost ledger
+ */
+
+/**
+ * A single recorded LLM call
+ */
+export interface UsageRecord {
+    /** When the call finished (ms since epoch) */
+    timestamp: number;
+    /** Provider that served the call */
+    provider: string;
+    /** Model identifier */
+    model: string;
+    /** Name of the template being filled, if any */
+    template?: string;
+    /** Prompt tokens */
+    inputTokens: number;
+    /** Completion tokens */
+    outputTokens: number;
+    /** Estimated cost in USD; undefined when the model's pricing is unknown */
+    cost?: number;
+    /** Token counts were estimated because the provider did not report usage */
+    estimated?: boolean;
+}
+
+/**
+ * Aggregated usage for a group of records
+ */
+export interface UsageTotals {
+    calls: number;
+    inputTokens: number;
+    outputTokens: number;
+    cost: number;
+}
+
+/**
+ * Ways the ledger can be grouped
+ */
+export type UsageGrouping = 'day' | 'template' | 'model';
+
+/**
+ * Result of checking a planned call against the monthly budget
+ */
+export interface BudgetCheck {
+    /** Cost recorded so far this month */
+    spent: number;
+    /** Cost this month including the planned call */
+    projected: number;
+    /** Monthly budget in USD (0 when none is set) */
+    budget: number;
+    /** Whether the planned call would take spending over the budget */
+    exceeded: boolean;
+}
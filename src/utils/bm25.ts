@@ -0,0 +1,144 @@
+// src/utils/bm25.ts
+
+/**
+ * File: src/utils/bm25.ts
+ * In-memory BM25 ranking over text passages
+ */
+
+// Term frequency saturation and length normalization, the usual defaults
+const K1 = 1.2;
+const B = 0.75;
+
+const STOP_WORDS = new Set([
+    'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'for', 'from', 'has', 'have', 'he', 'her',
+    'his', 'i', 'if', 'in', 'into', 'is', 'it', 'its', 'me', 'my', 'no', 'not', 'of', 'on', 'or', 'our',
+    'she', 'so', 'that', 'the', 'their', 'them', 'then', 'there', 'these', 'they', 'this', 'to', 'was',
+    'we', 'were', 'what', 'when', 'which', 'who', 'will', 'with', 'you', 'your'
+]);
+
+/**
+ * Split text into lowercase search terms, leaving out stop words and single characters.
+ * Letters and digits of any script count as word characters.
+ * @param text The text.
+ * @returns The terms in order, with repeats.
+ */
+export function tokenize(text: string): string[] {
+    return text
+        .toLowerCase()
+        .split(/[^\p{L}\p{N}]+/u)
+        .filter(term => term.length > 1 && !STOP_WORDS.has(term));
+}
+
+interface IndexedDocument<T> {
+    value: T;
+    length: number;
+    termCounts: Map<string, number>;
+}
+
+/**
+ * BM25 index of documents grouped by key, so all documents of a key
+ * (e.g. the passages of one note) can be replaced or removed together.
+ */
+export class Bm25Index<T> {
+    private documents: Map<string, Array<IndexedDocument<T>>> = new Map();
+    private postings: Map<string, Set<IndexedDocument<T>>> = new Map();
+    private documentCount: number = 0;
+    private totalLength: number = 0;
+
+    /**
+     * Replace the documents stored under a key
+     * @param key Group key, e.g. a note path
+     * @param entries The documents and the text they are found by
+     */
+    set(key: string, entries: Array<{ value: T, text: string }>): void {
+        this.delete(key);
+
+        const documents = entries.map(entry => {
+            const terms = tokenize(entry.text);
+            const termCounts = new Map<string, number>();
+            terms.forEach(term => termCounts.set(term, (termCounts.get(term) || 0) + 1));
+            return { value: entry.value, length: terms.length, termCounts };
+        });
+
+        documents.forEach(document => {
+            document.termCounts.forEach((_, term) => {
+                let posting = this.postings.get(term);
+                if (!posting) {
+                    posting = new Set();
+                    this.postings.set(term, posting);
+                }
+                posting.add(document);
+            });
+            this.documentCount += 1;
+            this.totalLength += document.length;
+        });
+        this.documents.set(key, documents);
+    }
+
+    /**
+     * Remove the documents stored under a key
+     * @param key Group key
+     */
+    delete(key: string): void {
+        const documents = this.documents.get(key);
+        if (!documents) {
+            return;
+        }
+
+        documents.forEach(document => {
+            document.termCounts.forEach((_, term) => {
+                const posting = this.postings.get(term);
+                posting?.delete(document);
+                if (posting && posting.size === 0) {
+                    this.postings.delete(term);
+                }
+            });
+            this.documentCount -= 1;
+            this.totalLength -= document.length;
+        });
+        this.documents.delete(key);
+    }
+
+    /**
+     * Remove every document
+     */
+    clear(): void {
+        this.documents.clear();
+        this.postings.clear();
+        this.documentCount = 0;
+        this.totalLength = 0;
+    }
+
+    /**
+     * Rank the documents against a query
+     * @param query Free text
+     * @param limit Maximum number of results
+     * @param filter Documents to consider; all when omitted
+     * @returns The best matching documents with their scores, best first
+     */
+    search(query: string, limit: number, filter?: (value: T) => boolean): Array<{ value: T, score: number }> {
+        const terms = Array.from(new Set(tokenize(query)));
+        const averageLength = this.documentCount > 0 ? this.totalLength / this.documentCount : 0;
+        const scores = new Map<IndexedDocument<T>, number>();
+
+        terms.forEach(term => {
+            const posting = this.postings.get(term);
+            if (!posting) {
+                return;
+            }
+
+            const idf = Math.log(1 + (this.documentCount - posting.size + 0.5) / (posting.size + 0.5));
+            posting.forEach(document => {
+                const frequency = document.termCounts.get(term) || 0;
+                const norm = frequency + K1 * (1 - B + B * document.length / averageLength);
+                scores.set(document, (scores.get(document) || 0) + idf * frequency * (K1 + 1) / norm);
+            });
+        });
+
+        return Array.from(scores.entries())
+            .filter(([document]) => !filter || filter(document.value))
+            .sort(([, a], [, b]) => b - a)
+            .slice(0, limit)
+            .map(([document, score]) => ({ value: document.value, score }));
+    }
+}
@@ -0,0 +1,38 @@
+// src/utils/constants.ts
+
+/**
+ * File: src/utils/constants.ts
+ * Shared constants
+ */
+
+import { AIProvider } from '../types/aiModels';
+
+/**
+ * Frontmatter key under which templates store their Filler Inner configuration
+ */
+export const TEMPLATE_CONFIG_KEY = 'filler-inner';
+
+/**
+ * Names of the providers as shown to the user
+ */
+export const PROVIDER_NAMES: Record<AIProvider, string> = {
+    [AIProvider.OpenRouter]: 'OpenRouter',
+    [AIProvider.LMStudio]: 'LMStudio',
+    [AIProvider.Anthropic]: 'Anthropic',
+    [AIProvider.OpenAI]: 'OpenAI',
+    [AIProvider.Gemini]: 'Google Gemini',
+    [AIProvider.Groq]: 'Groq',
+    [AIProvider.Perplexity]: 'Perplexity'
+};
+
+/**
+ * Frontmatter keys recording where a generated note came from
+ */
+export const PROVENANCE_KEYS = {
+    template: 'generated-from',
+    model: 'generated-model',
+    generatedAt: 'generated-at',
+    promptHash: 'prompt-hash',
+    // Set on source notes a template was applied to, so later runs can skip them
+    appliedTemplates: 'filled-with'
+} as const;
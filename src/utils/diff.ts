@@ -0,0 +1,84 @@
+// src/utils/diff.ts
+
+/**
+ * File: src/utils/diff.ts
+ * Line-based diff for confirming changes to existing notes
+ */
+
+export interface DiffLine {
+    type: 'same' | 'added' | 'removed';
+    text: string;
+}
+
+// Above this many comparisons the changed middle is shown as removed then added, instead of matched line by line
+const MAX_DIFF_CELLS = 1_000_000;
+
+/**
+ * Compute a line diff using the longest common subsequence of lines.
+ * The unchanged lines at the start and end are matched first, so only the changed middle is compared.
+ * @param before The original text.
+ * @param after The changed text.
+ * @returns The lines of both texts in order, marked as kept, added or removed.
+ */
+export function diffLines(before: string, after: string): DiffLine[] {
+    const a = before.split('\n');
+    const b = after.split('\n');
+
+    let start = 0;
+    while (start < a.length && start < b.length && a[start] === b[start]) {
+        start++;
+    }
+    let endA = a.length;
+    let endB = b.length;
+    while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+        endA--;
+        endB--;
+    }
+
+    const lines: DiffLine[] = a.slice(0, start).map(text => ({ type: 'same', text }));
+    lines.push(...diffMiddle(a.slice(start, endA), b.slice(start, endB)));
+    lines.push(...a.slice(endA).map((text): DiffLine => ({ type: 'same', text })));
+    return lines;
+}
+
+/**
+ * Diff the changed middle of two texts with a longest common subsequence table
+ * @private
+ */
+function diffMiddle(a: string[], b: string[]): DiffLine[] {
+    if ((a.length + 1) * (b.length + 1) > MAX_DIFF_CELLS) {
+        return [
+            ...a.map((text): DiffLine => ({ type: 'removed', text })),
+            ...b.map((text): DiffLine => ({ type: 'added', text }))
+        ];
+    }
+
+    // lengths[i][j]: length of the common subsequence of a[i..] and b[j..]
+    const lengths: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+    for (let i = a.length - 1; i >= 0; i--) {
+        for (let j = b.length - 1; j >= 0; j--) {
+            lengths[i][j] = a[i] === b[j]
+                ? lengths[i + 1][j + 1] + 1
+                : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+        }
+    }
+
+    const lines: DiffLine[] = [];
+    let i = 0;
+    let j = 0;
+    while (i < a.length && j < b.length) {
+        if (a[i] === b[j]) {
+            lines.push({ type: 'same', text: a[i] });
+            i++;
+            j++;
+        } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+            lines.push({ type: 'removed', text: a[i++] });
+        } else {
+            lines.push({ type: 'added', text: b[j++] });
+        }
+    }
+    while (i < a.length) lines.push({ type: 'removed', text: a[i++] });
+    while (j < b.length) lines.push({ type: 'added', text: b[j++] });
+
+    return lines;
+}
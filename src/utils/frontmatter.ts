@@ -0,0 +1,113 @@
+// src/utils/frontmatter.ts
+
+/**
+ * File: src/utils/frontmatter.ts
+ * Helpers for reading and editing a note's YAML frontmatter block
+ */
+
+import { parseYaml, stringifyYaml } from 'obsidian';
+
+const FRONTMATTER_PATTERN = /^---\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/;
+
+/**
+ * Split a note into its frontmatter and body
+ * @param content Note content
+ * @returns The raw YAML between the fences (null when there is none) and the rest of the note
+ */
+export function splitFrontmatter(content: string): { frontmatter: string | null; body: string } {
+    const match = content.match(FRONTMATTER_PATTERN);
+    if (!match) {
+        return { frontmatter: null, body: content };
+    }
+    return { frontmatter: match[1], body: content.slice(match[0].length) };
+}
+
+/**
+ * Remove a top-level key, with any nested lines, from a note's frontmatter.
+ * The frontmatter block is dropped entirely when nothing else is left in it.
+ * @param content Note content
+ * @param key Top-level frontmatter key
+ * @returns The note without the key
+ */
+export function removeFrontmatterKey(content: string, key: string): string {
+    const { frontmatter, body } = splitFrontmatter(content);
+    if (frontmatter === null) {
+        return content;
+    }
+
+    const kept: string[] = [];
+    let removing = false;
+    for (const line of frontmatter.split(/\r?\n/)) {
+        const isTopLevel = /^\S/.test(line) && !line.startsWith('- ');
+        if (isTopLevel) {
+            removing = new RegExp(`^["']?${escapeRegExp(key)}["']?\\s*:`).test(line);
+        }
+        if (!removing) {
+            kept.push(line);
+        }
+    }
+
+    if (kept.every(line => !line.trim())) {
+        return body;
+    }
+    return `---\n${kept.join('\n')}\n---\n${body}`;
+}
+
+/**
+ * Parse frontmatter YAML. Template placeholders such as {{title}} are not valid
+ * YAML values on their own, so they are read as plain strings.
+ * @param frontmatter The raw YAML between the fences
+ * @returns The parsed properties
+ * @throws If the YAML cannot be parsed
+ */
+export function parseFrontmatter(frontmatter: string): Record<string, unknown> {
+    const placeholders: string[] = [];
+    const protectedYaml = frontmatter.replace(/\{\{[^{}]*\}\}/g, placeholder => {
+        placeholders.push(placeholder);
+        return `__placeholder${placeholders.length - 1}__`;
+    });
+
+    const parsed = parseYaml(protectedYaml);
+    if (parsed === null || parsed === undefined) {
+        return {};
+    }
+    if (typeof parsed !== 'object' || Array.isArray(parsed)) {
+        throw new Error('Frontmatter is not a set of properties.');
+    }
+
+    return restorePlaceholders(parsed, placeholders) as Record<string, unknown>;
+}
+
+/**
+ * Put properties back in front of a note body
+ * @param properties Frontmatter properties; no block is written when empty
+ * @param body Note content without frontmatter
+ * @returns The note
+ */
+export function joinFrontmatter(properties: Record<string, unknown>, body: string): string {
+    if (Object.keys(properties).length === 0) {
+        return body;
+    }
+    return `---\n${stringifyYaml(properties).trimEnd()}\n---\n${body}`;
+}
+
+function restorePlaceholders(value: unknown, placeholders: string[]): unknown {
+    if (typeof value === 'string') {
+        return value.replace(/__placeholder(\d+)__/g, (match, index: string) => placeholders[Number(index)] ?? match);
+    }
+    if (Array.isArray(value)) {
+        return value.map(item => restorePlaceholders(item, placeholders));
+    }
+    if (value && typeof value === 'object') {
+        const restored: Record<string, unknown> = {};
+        Object.entries(value).forEach(([key, item]) => {
+            restored[key] = restorePlaceholders(item, placeholders);
+        });
+        return restored;
+    }
+    return value;
+}
+
+function escapeRegExp(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -0,0 +1,60 @@
+// src/utils/glob.ts
+
+/**
+ * File: src/utils/glob.ts
+ * Matching vault paths against glob patterns
+ */
+
+/**
+ * Convert a glob pattern to a regular expression.
+ * Supports `**` (any number of folders), `*` (anything but a slash),
+ * `?` (one character but a slash) and `{a,b}` alternatives.
+ * @param pattern The glob pattern, relative to the vault root.
+ * @returns A case-sensitive expression matching whole paths.
+ */
+export function globToRegExp(pattern: string): RegExp {
+    let source = '';
+    let inAlternatives = false;
+
+    for (let i = 0; i < pattern.length; i++) {
+        const char = pattern[i];
+
+        if (char === '*') {
+            if (pattern[i + 1] === '*') {
+                // "**/" also matches no folder at all
+                const slash = pattern[i + 2] === '/';
+                source += slash ? '(?:.*/)?' : '.*';
+                i += slash ? 2 : 1;
+            } else {
+                source += '[^/]*';
+            }
+        } else if (char === '?') {
+            source += '[^/]';
+        } else if (char === '{') {
+            inAlternatives = true;
+            source += '(?:';
+        } else if (char === '}' && inAlternatives) {
+            inAlternatives = false;
+            source += ')';
+        } else if (char === ',' && inAlternatives) {
+            source += '|';
+        } else {
+            source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+        }
+    }
+
+    return new RegExp(`^${source}$`);
+}
+
+/**
+ * Check whether a path matches any of the given glob patterns
+ * @param path The vault path.
+ * @param patterns Glob patterns; blank patterns are ignored.
+ * @returns True when at least one pattern matches.
+ */
+export function matchesAnyGlob(path: string, patterns: string[]): boolean {
+    return patterns
+        .map(pattern => pattern.trim())
+        .filter(Boolean)
+        .some(pattern => globToRegExp(pattern).test(path));
+}
@@ -22,3 +22,59 @@ export function debounce(func: Function, wait: number) {
         timeout = window.setTimeout(later, wait);
     };
 }
+
+
+/**
+ * Renders citation URLs into Markdown.
+ * Inline [n] markers become footnote references with matching definitions;
+ * when the text has no markers, the URLs are listed in a "Sources" section instead.
+ * @param content The generated Markdown.
+ * @param citations Citation URLs, where citations[0] belongs to marker [1].
+ * @returns The content with citations attached.
+ */
+export function appendCitations(content: string, citations: string[]): string {
+    if (citations.length === 0) {
+        return content;
+    }
+
+    let referenced = false;
+    // Skip Markdown links ("[1](...)"), reference definitions ("[1]: ...") and existing footnotes ("[^1]")
+    const withFootnotes = content.replace(/\[(\d+)\](?![(:])/g, (match, index: string) => {
+        const n = Number(index);
+        if (n < 1 || n > citations.length) {
+            return match;
+        }
+        referenced = true;
+        return `[^${n}]`;
+    });
+
+    if (referenced) {
+        const definitions = citations.map((url, i) => `[^${i + 1}]: ${url}`).join('\n');
+        return `${withFootnotes.trimEnd()}\n\n${definitions}`;
+    }
+
+    const sources = citations.map(url => `- ${url}`).join('\n');
+    return `${content.trimEnd()}\n\n## Sources\n\n${sources}`;
+}
+
+/**
+ * Rough token count for budgeting when a provider does not report usage.
+ * Assumes about four characters per token, which holds for English prose.
+ * @param text The text to measure.
+ * @returns The estimated number of tokens.
+ */
+export function estimateTokens(text: string): number {
+    return Math.ceil(text.length / 4);
+}
+
+/**
+ * SHA-256 digest of a text, for recording prompts without storing them.
+ * @param text The text to hash.
+ * @returns The digest as lowercase hex.
+ */
+export async function hashText(text: string): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+    return Array.from(new Uint8Array(digest))
+        .map(byte => byte.toString(16).padStart(2, '0'))
+        .join('');
+}
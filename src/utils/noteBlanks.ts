@@ -0,0 +1,192 @@
+// src/utils/noteBlanks.ts
+
+/**
+ * File: src/utils/noteBlanks.ts
+ * Finding and filling the unfilled parts of an existing note
+ */
+
+import { NoteBlank } from '../types';
+
+const FRONTMATTER_PATTERN = /^---\r?\n([\s\S]*?\r?\n)?---[ \t]*(?:\r?\n|$)/;
+const HEADING_PATTERN = /^#{1,6}\s+\S.*$/;
+const FENCE_PATTERN = /^\s*(```|~~~)/;
+const PLACEHOLDER_PATTERN = /\{\{\s*([^{}]*?)\s*\}\}/g;
+const TODO_PATTERN = /\bTODO\b:?[^\n]*/g;
+const EMPTY_VALUE_PATTERN = /^([^\s#:-][^:]*):[ \t]*(""|''|\[\])?[ \t]*$/;
+
+/**
+ * Find the unfilled parts of a note: headings with nothing under them,
+ * {{...}} placeholders, TODO markers and empty frontmatter values.
+ * Code blocks are skipped.
+ * @param content The note content.
+ * @returns The blanks in order of position, numbered from 1.
+ */
+export function findBlanks(content: string): NoteBlank[] {
+    const blanks: Omit<NoteBlank, 'id'>[] = [];
+
+    const frontmatter = content.match(FRONTMATTER_PATTERN);
+    const bodyStart = frontmatter ? frontmatter[0].length : 0;
+
+    if (frontmatter) {
+        let offset = content.indexOf('\n') + 1;
+        const lines = (frontmatter[1] || '').split('\n');
+        lines.forEach((line, i) => {
+            const text = line.replace(/\r$/, '');
+            const emptyValue = text.match(EMPTY_VALUE_PATTERN);
+            // A key with no value followed by indented or list lines holds a nested value
+            const hasNested = /^(\s+|-\s)/.test(lines[i + 1] || '');
+            if (emptyValue && !hasNested) {
+                const valueStart = offset + text.indexOf(':') + 1;
+                blanks.push({
+                    kind: 'frontmatter',
+                    label: `Frontmatter "${emptyValue[1].trim()}"`,
+                    start: valueStart,
+                    end: offset + text.length,
+                    original: text.slice(text.indexOf(':') + 1)
+                });
+            } else {
+                collectMarkers(text, offset, 'frontmatter', blanks);
+            }
+            offset += line.length + 1;
+        });
+    }
+
+    const lines = content.slice(bodyStart).split('\n');
+    let offset = bodyStart;
+    let inFence = false;
+
+    lines.forEach((line, i) => {
+        const text = line.replace(/\r$/, '');
+
+        if (FENCE_PATTERN.test(text)) {
+            inFence = !inFence;
+        } else if (!inFence) {
+            if (HEADING_PATTERN.test(text) && isEmptySection(lines, i)) {
+                blanks.push({
+                    kind: 'heading',
+                    label: `Section "${text.trim()}"`,
+                    start: offset + text.length,
+                    end: offset + text.length,
+                    original: ''
+                });
+            }
+            collectMarkers(text, offset, 'marker', blanks);
+        }
+
+        offset += line.length + 1;
+    });
+
+    // Overlapping markers, such as {{TODO}}, count once
+    let lastEnd = -1;
+    return blanks
+        .sort((a, b) => a.start - b.start)
+        .filter(blank => {
+            const overlaps = blank.start < lastEnd;
+            lastEnd = Math.max(lastEnd, blank.end);
+            return !overlaps;
+        })
+        .map((blank, index) => ({ ...blank, id: index + 1 }));
+}
+
+/**
+ * Write filled values into a note. Blanks without a value are left as they are.
+ * @param content The note content the blanks were found in.
+ * @param blanks The blanks.
+ * @param values Filled values keyed by blank id.
+ * @returns The note with the blanks filled.
+ */
+export function applyBlanks(content: string, blanks: NoteBlank[], values: Record<number, string>): string {
+    let result = content;
+
+    // Work backwards so earlier offsets stay valid
+    [...blanks]
+        .sort((a, b) => b.start - a.start)
+        .forEach(blank => {
+            const value = values[blank.id]?.trim();
+            if (!value) {
+                return;
+            }
+
+            let replacement: string;
+            switch (blank.kind) {
+                case 'heading':
+                    replacement = `\n\n${value}`;
+                    break;
+                case 'frontmatter':
+                    replacement = blank.original === '' || /^\s*(""|''|\[\])?\s*$/.test(blank.original)
+                        ? ` ${toYamlScalar(value)}`
+                        : toYamlScalar(value);
+                    break;
+                default:
+                    replacement = value;
+            }
+
+            result = result.slice(0, blank.start) + replacement + result.slice(blank.end);
+        });
+
+    return result;
+}
+
+/**
+ * Replace each blank with a numbered marker, so the model can see where the blanks are
+ * @param content The note content.
+ * @param blanks The blanks found in it.
+ * @returns The note with markers such as ⟦BLANK 3⟧.
+ */
+export function markBlanks(content: string, blanks: NoteBlank[]): string {
+    const markers: Record<number, string> = {};
+    blanks.forEach(blank => {
+        markers[blank.id] = `⟦BLANK ${blank.id}⟧`;
+    });
+    return applyBlanks(content, blanks, markers);
+}
+
+function collectMarkers(line: string, offset: number, kind: NoteBlank['kind'], blanks: Omit<NoteBlank, 'id'>[]): void {
+    for (const pattern of [PLACEHOLDER_PATTERN, TODO_PATTERN]) {
+        const regex = new RegExp(pattern.source, 'g');
+        let match: RegExpExecArray | null;
+        while ((match = regex.exec(line)) !== null) {
+            // A frontmatter marker that is the whole value is replaced by a YAML value
+            const wholeValue = kind === 'frontmatter' && line.slice(line.indexOf(':') + 1).trim() === match[0];
+            blanks.push({
+                kind: wholeValue ? 'frontmatter' : 'marker',
+                label: match[0].trim(),
+                start: offset + match.index,
+                end: offset + match.index + match[0].length,
+                original: match[0]
+            });
+        }
+    }
+}
+
+/**
+ * Whether nothing but blank lines follows a heading before the next heading of
+ * the same or a higher level; a heading with subsections is not empty
+ */
+function isEmptySection(lines: string[], headingIndex: number): boolean {
+    const level = getHeadingLevel(lines[headingIndex]);
+    for (let i = headingIndex + 1; i < lines.length; i++) {
+        const text = lines[i].trim();
+        if (HEADING_PATTERN.test(text)) {
+            return getHeadingLevel(text) <= level;
+        }
+        if (text) {
+            return false;
+        }
+    }
+    return true;
+}
+
+function getHeadingLevel(line: string): number {
+    return (line.match(/^#+/)?.[0] || '').length;
+}
+
+/**
+ * Quote a value when it would not read back as the same string in YAML
+ */
+function toYamlScalar(value: string): string {
+    const singleLine = value.replace(/\s*\n\s*/g, ' ');
+    return /^[\w\s.,/()'-]+$/.test(singleLine) && !/^\s|\s$/.test(singleLine) && !/^(true|false|null|yes|no|~|[\d.]+)$/i.test(singleLine)
+        ? singleLine
+        : JSON.stringify(singleLine);
+}
@@ -0,0 +1,172 @@
+// src/utils/tableData.ts
+
+/**
+ * File: src/utils/tableData.ts
+ * Reading rows of records from CSV, JSON and Markdown tables
+ */
+
+import { splitFrontmatter } from './frontmatter';
+
+export type TableRow = Record<string, string>;
+
+/**
+ * Read the rows of a data file. CSV and Markdown tables take their columns from
+ * the header row; JSON must be an array of objects, or an object holding one.
+ * @param content The file content.
+ * @param extension The file extension: csv, json or md.
+ * @returns The rows in order, with empty rows left out.
+ * @throws If the content holds no rows in the expected format.
+ */
+export function parseTableRows(content: string, extension: string): TableRow[] {
+    switch (extension.toLowerCase()) {
+        case 'csv':
+            return parseCsv(content);
+        case 'json':
+            return parseJsonRows(content);
+        case 'md':
+            return parseMarkdownTable(content);
+        default:
+            throw new Error(`Unsupported data file type: .${extension}`);
+    }
+}
+
+/**
+ * Parse CSV with a header row. Fields may be quoted to hold commas, quotes ("")
+ * and line breaks; a file with more semicolons than commas in its header is read
+ * as semicolon-separated, as spreadsheets in many locales export it.
+ * @param content The CSV text.
+ * @returns The rows keyed by header.
+ */
+export function parseCsv(content: string): TableRow[] {
+    const text = content.replace(/^\uFEFF/, '');
+    const headerLine = text.split(/\r?\n/, 1)[0];
+    const delimiter = (headerLine.match(/;/g) || []).length > (headerLine.match(/,/g) || []).length ? ';' : ',';
+
+    const records: string[][] = [];
+    let record: string[] = [];
+    let field = '';
+    let quoted = false;
+
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+
+        if (quoted) {
+            if (char === '"' && text[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                quoted = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"' && field === '') {
+            quoted = true;
+        } else if (char === delimiter) {
+            record.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && text[i + 1] === '\n') {
+                i++;
+            }
+            record.push(field);
+            records.push(record);
+            record = [];
+            field = '';
+        } else {
+            field += char;
+        }
+    }
+    if (field !== '' || record.length > 0) {
+        record.push(field);
+        records.push(record);
+    }
+
+    return toRows(records);
+}
+
+/**
+ * Parse a JSON array of objects. Nested values are written as JSON text.
+ * @param content The JSON text.
+ * @returns The rows.
+ */
+export function parseJsonRows(content: string): TableRow[] {
+    let data: unknown = JSON.parse(content);
+
+    // Exports often wrap the records, e.g. {"clients": [...]}
+    if (data && !Array.isArray(data) && typeof data === 'object') {
+        data = Object.values(data as Record<string, unknown>).find(Array.isArray);
+    }
+    if (!Array.isArray(data)) {
+        throw new Error('JSON data must be an array of objects.');
+    }
+
+    return data
+        .filter((item): item is Record<string, unknown> => !!item && typeof item === 'object' && !Array.isArray(item))
+        .map(item => {
+            const row: TableRow = {};
+            Object.keys(item).forEach(key => {
+                const value = item[key];
+                row[key] = value === null || value === undefined ? ''
+                    : typeof value === 'object' ? JSON.stringify(value) : String(value);
+            });
+            return row;
+        })
+        .filter(row => Object.keys(row).some(key => row[key].trim()));
+}
+
+/**
+ * Parse the first Markdown table of a note.
+ * @param content The note content.
+ * @returns The rows keyed by the table's header.
+ */
+export function parseMarkdownTable(content: string): TableRow[] {
+    const lines = splitFrontmatter(content).body.split(/\r?\n/);
+    const start = lines.findIndex((line, i) =>
+        line.trim().startsWith('|') && /^\s*\|?\s*:?-{3,}:?\s*(\|\s*:?-{3,}:?\s*)*\|?\s*$/.test(lines[i + 1] || '')
+    );
+    if (start === -1) {
+        throw new Error('No Markdown table found in the note.');
+    }
+
+    const records: string[][] = [splitTableLine(lines[start])];
+    for (let i = start + 2; i < lines.length && lines[i].trim().startsWith('|'); i++) {
+        records.push(splitTableLine(lines[i]));
+    }
+
+    return toRows(records);
+}
+
+/**
+ * Cells of a table row; "\|" is a literal pipe
+ * @private
+ */
+function splitTableLine(line: string): string[] {
+    return line
+        .trim()
+        .replace(/^\|/, '')
+        .replace(/(?<!\\)\|$/, '')
+        .split(/(?<!\\)\|/)
+        .map(cell => cell.replace(/\\\|/g, '|').trim());
+}
+
+/**
+ * Key records by the first record's cells, dropping blank records
+ * @private
+ */
+function toRows(records: string[][]): TableRow[] {
+    const [header, ...body] = records;
+    if (!header || header.every(cell => !cell.trim())) {
+        throw new Error('The data has no header row.');
+    }
+
+    const columns = header.map((cell, i) => cell.trim() || `Column ${i + 1}`);
+    return body
+        .filter(record => record.some(cell => cell.trim()))
+        .map(record => {
+            const row: TableRow = {};
+            columns.forEach((column, i) => {
+                row[column] = (record[i] || '').trim();
+            });
+            return row;
+        });
+}
@@ -0,0 +1,60 @@
+// src/utils/templateFields.ts
+
+/**
+ * File: src/utils/templateFields.ts
+ * Parsing and substitution of {{field}} and {{ai: instruction}} placeholders
+ */
+
+import { TemplateField } from '../types';
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([^{}]+?)\s*\}\}/g;
+const AI_PREFIX_PATTERN = /^ai\s*:\s*/i;
+
+/**
+ * Find the placeholders in template content.
+ * Literal fields are listed once per name, in order of first appearance;
+ * AI fields are listed once per distinct instruction.
+ * @param content The template content.
+ * @returns The fields found.
+ */
+export function parseTemplateFields(content: string): TemplateField[] {
+    const fields: TemplateField[] = [];
+    const seen = new Set<string>();
+
+    const pattern = new RegExp(PLACEHOLDER_PATTERN.source, 'g');
+    let match: RegExpExecArray | null;
+
+    while ((match = pattern.exec(content)) !== null) {
+        const inner = match[1];
+        const isAI = AI_PREFIX_PATTERN.test(inner);
+        const name = isAI ? inner.replace(AI_PREFIX_PATTERN, '').trim() : inner;
+        const key = `${isAI ? 'ai' : 'literal'}:${name}`;
+
+        if (!name || seen.has(key)) continue;
+        seen.add(key);
+
+        fields.push({
+            placeholder: match[0],
+            name: name,
+            type: isAI ? 'ai' : 'literal'
+        });
+    }
+
+    return fields;
+}
+
+/**
+ * Replace literal placeholders with their values, exactly as given.
+ * Placeholders without a value and AI placeholders are left untouched.
+ * @param content The content containing placeholders.
+ * @param values Field values keyed by field name.
+ * @returns The content with literal fields filled in.
+ */
+export function fillLiteralFields(content: string, values: Record<string, string>): string {
+    return content.replace(PLACEHOLDER_PATTERN, (placeholder: string, inner: string) => {
+        if (AI_PREFIX_PATTERN.test(inner)) {
+            return placeholder;
+        }
+        return Object.prototype.hasOwnProperty.call(values, inner) ? values[inner] : placeholder;
+    });
+}
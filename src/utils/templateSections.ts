@@ -0,0 +1,47 @@
+// src/utils/templateSections.ts
+
+/**
+ * File: src/utils/templateSections.ts
+ * Splitting templates into sections at their Markdown headings
+ */
+
+import { TemplateSection } from '../types';
+
+const HEADING_PATTERN = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+const FENCE_PATTERN = /^\s*(```|~~~)/;
+
+/**
+ * Split template content at its headings.
+ * Headings inside fenced code blocks are ignored, and text before the first
+ * heading becomes a section of its own when it is not blank.
+ * Joining the contents of the sections gives back the original content,
+ * apart from blank text before the first heading.
+ * @param content The template content.
+ * @returns The sections in order.
+ */
+export function splitTemplateSections(content: string): TemplateSection[] {
+    const sections: TemplateSection[] = [];
+    let current: TemplateSection = { heading: '', level: 0, content: '' };
+    let fence: string | null = null;
+
+    for (const line of content.split(/(?<=\n)/)) {
+        const fenceMatch = line.match(FENCE_PATTERN);
+        if (fenceMatch) {
+            if (fence === null) {
+                fence = fenceMatch[1];
+            } else if (fenceMatch[1] === fence) {
+                fence = null;
+            }
+        }
+
+        const headingMatch = fence === null ? line.replace(/\r?\n$/, '').match(HEADING_PATTERN) : null;
+        if (headingMatch) {
+            sections.push(current);
+            current = { heading: headingMatch[2], level: headingMatch[1].length, content: '' };
+        }
+        current.content += line;
+    }
+    sections.push(current);
+
+    return sections.filter(section => section.level > 0 || section.content.trim());
+}
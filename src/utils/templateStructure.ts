@@ -0,0 +1,184 @@
+// src/utils/templateStructure.ts
+
+/**
+ * File: src/utils/templateStructure.ts
+ * Comparing the structure of a filled note with the template it was filled from
+ */
+
+import { StructureIssue, TemplateSection } from '../types';
+import { splitFrontmatter } from './frontmatter';
+import { splitTemplateSections } from './templateSections';
+
+const PLACEHOLDER_PATTERN = /\{\{[^{}]*\}\}/g;
+const TABLE_ROW_PATTERN = /^\s*\|.*\|\s*$/;
+const TABLE_DELIMITER_PATTERN = /^\s*\|?\s*:?-{3,}:?\s*(\|\s*:?-{3,}:?\s*)*\|?\s*$/;
+const TASK_PATTERN = /^\s*[-*+]\s+\[[ xX]\]\s/;
+const BULLET_PATTERN = /^\s*[-*+]\s+/;
+const NUMBERED_PATTERN = /^\s*\d+[.)]\s+/;
+
+type ListKind = 'task' | 'bullet' | 'numbered';
+
+/**
+ * Compare a filled note with its template.
+ * Checks that the template's headings appear in order with the same level, that its
+ * frontmatter keys are kept, that its tables keep their columns, and that each
+ * section keeps its kinds of lists. Extra content in the note is not an issue.
+ * Headings and table headers containing {{placeholders}} match any filled-in text.
+ * @param template The template content.
+ * @param output The filled note.
+ * @returns The differences found; empty when the structure is preserved.
+ */
+export function compareStructure(template: string, output: string): StructureIssue[] {
+    const issues: StructureIssue[] = [];
+    const templateParts = splitFrontmatter(template);
+    const outputParts = splitFrontmatter(output);
+
+    issues.push(...compareFrontmatter(templateParts.frontmatter, outputParts.frontmatter));
+
+    const templateSections = splitTemplateSections(templateParts.body).filter(section => section.level > 0);
+    const outputSections = splitTemplateSections(outputParts.body).filter(section => section.level > 0);
+
+    // Match template headings to output headings in order
+    let cursor = 0;
+    for (const section of templateSections) {
+        const label = formatHeading(section);
+        const pattern = toPattern(section.heading);
+        const matchIndex = outputSections.findIndex((candidate, i) => i >= cursor && pattern.test(candidate.heading.trim()));
+
+        if (matchIndex === -1) {
+            issues.push({ kind: 'heading', message: `Heading "${label}" is missing or was renamed.` });
+            continue;
+        }
+
+        const match = outputSections[matchIndex];
+        cursor = matchIndex + 1;
+
+        if (match.level !== section.level) {
+            issues.push({
+                kind: 'heading',
+                message: `Heading "${label}" changed from level ${section.level} to level ${match.level}.`
+            });
+        }
+
+        issues.push(...compareSectionBody(label, section.content, match.content));
+    }
+
+    // Tables and lists before the first heading
+    const templateIntro = splitTemplateSections(templateParts.body).find(section => section.level === 0);
+    if (templateIntro) {
+        const outputIntro = splitTemplateSections(outputParts.body).find(section => section.level === 0);
+        issues.push(...compareSectionBody('the text before the first heading', templateIntro.content, outputIntro?.content || ''));
+    }
+
+    return issues;
+}
+
+/**
+ * Format issues as a bulleted list
+ * @param issues The issues to list.
+ * @returns One line per issue.
+ */
+export function formatStructureIssues(issues: StructureIssue[]): string {
+    return issues.map(issue => `- ${issue.message}`).join('\n');
+}
+
+function compareFrontmatter(template: string | null, output: string | null): StructureIssue[] {
+    if (template === null) {
+        return [];
+    }
+
+    const outputKeys = new Set(getFrontmatterKeys(output || ''));
+    return getFrontmatterKeys(template)
+        .filter(key => !outputKeys.has(key))
+        .map(key => ({ kind: 'frontmatter' as const, message: `Frontmatter key "${key}" is missing.` }));
+}
+
+function compareSectionBody(label: string, template: string, output: string): StructureIssue[] {
+    const issues: StructureIssue[] = [];
+
+    const outputTables = getTableHeaders(output);
+    for (const header of getTableHeaders(template)) {
+        const patterns = header.map(toPattern);
+        const kept = outputTables.some(candidate =>
+            candidate.length === header.length && candidate.every((cell, i) => patterns[i].test(cell))
+        );
+        if (!kept) {
+            issues.push({
+                kind: 'table',
+                message: `The table under "${label}" must keep its ${header.length} columns: ${header.join(' | ')}.`
+            });
+        }
+    }
+
+    const outputLists = getListKinds(output);
+    for (const kind of getListKinds(template)) {
+        if (!outputLists.has(kind)) {
+            const description = kind === 'task' ? 'a checklist (- [ ])' : kind === 'numbered' ? 'a numbered list' : 'a bulleted list';
+            issues.push({ kind: 'list', message: `The section "${label}" must contain ${description}.` });
+        }
+    }
+
+    return issues;
+}
+
+function getFrontmatterKeys(frontmatter: string): string[] {
+    const keys: string[] = [];
+    for (const line of frontmatter.split(/\r?\n/)) {
+        const match = line.match(/^["']?([^\s"':#-][^"':]*?)["']?\s*:/);
+        if (match) {
+            keys.push(match[1]);
+        }
+    }
+    return keys;
+}
+
+/**
+ * Header cells of each table outside code blocks
+ */
+function getTableHeaders(content: string): string[][] {
+    const lines = stripCodeBlocks(content).split(/\r?\n/);
+    const headers: string[][] = [];
+
+    for (let i = 0; i < lines.length - 1; i++) {
+        if (TABLE_ROW_PATTERN.test(lines[i]) && TABLE_DELIMITER_PATTERN.test(lines[i + 1])
+            && (i === 0 || !TABLE_ROW_PATTERN.test(lines[i - 1]))) {
+            headers.push(lines[i].trim().replace(/^\||\|$/g, '').split('|').map(cell => cell.trim()));
+        }
+    }
+
+    return headers;
+}
+
+function getListKinds(content: string): Set<ListKind> {
+    const kinds = new Set<ListKind>();
+    for (const line of stripCodeBlocks(content).split(/\r?\n/)) {
+        if (TASK_PATTERN.test(line)) {
+            kinds.add('task');
+        } else if (BULLET_PATTERN.test(line) && !/^\s*[-*_](\s*[-*_]){2,}\s*$/.test(line)) {
+            kinds.add('bullet');
+        } else if (NUMBERED_PATTERN.test(line)) {
+            kinds.add('numbered');
+        }
+    }
+    return kinds;
+}
+
+function stripCodeBlocks(content: string): string {
+    return content.replace(/^\s*(```|~~~)[\s\S]*?^\s*\1.*$/gm, '');
+}
+
+/**
+ * Case-insensitive pattern matching text where {{placeholders}} stand for any text
+ */
+function toPattern(text: string): RegExp {
+    const source = text
+        .trim()
+        .split(PLACEHOLDER_PATTERN)
+        .map(part => part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+        .join('.+?');
+    return new RegExp(`^${source}$`, 'i');
+}
+
+function formatHeading(section: TemplateSection): string {
+    return `${'#'.repeat(section.level)} ${section.heading}`;
+}